@@ -1,50 +1,843 @@
-
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AccessSettings, AttendanceRecord, Block, CashEntry, CheckIn, CheckInLog, FileCommit, FineSettings, FollowUpStatus, Incident, NightException, OutboxEntry, PosRonda, ReminderSettings, Resident, Role, Schedule, ScheduledReminder, ScheduleVersion, ShiftRequest, StorageBackend, StorageSettings, SyncedFile } from './types';
+import { DEFAULT_CHECK_IN_LOG, DEFAULT_FILE_CONTENT, DEFAULT_FINE_SETTINGS, PERUMAHAN_NAME } from './constants';
+import { ChangeRefusedError, getPublicDataUrl, getSharedDataUrl, hashPin, isCheckInLink, loadAccessSettings, loadRoleSession, ROLE_LABELS, ROLE_SESSION_KEY, startRoleSession, WRITE_ROLES } from './services/access';
+import { buildCommitMessage, describeRecord, loadActorName } from './services/audit';
+import { blockPath, BLOCKS_PATH, createBlock, DEFAULT_BLOCKS, getDefaultContent, loadActiveBlockId, normalizeBlocks, saveActiveBlockId, scopeBackend } from './services/blocks';
+import { decryptSecret, encryptSecret, hasToken } from './services/crypto';
+import { ShaConflictError } from './services/github';
+import { cacheSet, idbGet, idbSet } from './services/offlineCache';
+import { buildReminders, fireDueReminders, loadReminderSettings } from './services/reminders';
+import { createStorageBackend, isNetworkError, loadStorageSettings } from './services/storage';
+import { clearSharedSubmission, getSharedSubmission } from './services/submissions';
+import { normalizeCheckInLog, pruneCheckIns } from './utils/checkIn';
+import { normalizeFineSettings, relinkFines } from './utils/fines';
+import { ConflictChoices, MERGE_STRATEGIES, MergeConflict, MergeStrategy, SaveCancelledError } from './utils/merge';
+import { withoutCancelledNights } from './utils/nightExceptions';
+import { getRoster, hasUnlinkedNames, migrateNamesToRegistry } from './utils/residents';
+import { normalizeSchedules } from './utils/schedule';
+import { getBlockShiftDateSettings, setActiveShiftDateSettings, ShiftDateSettings } from './utils/shiftDate';
+import { showSpinner } from './utils/spinner';
 import AttendanceForm from './components/AttendanceForm';
 import AttendanceRecap from './components/AttendanceRecap';
-import { AttendanceRecord } from './types';
+import CashLedger from './components/CashLedger';
+import CheckInPanel from './components/CheckInPanel';
+import ConflictDialog from './components/ConflictDialog';
+import FinesPanel from './components/FinesPanel';
+import HistoryPanel from './components/HistoryPanel';
+import IncidentOverview from './components/IncidentOverview';
+import MonthlyReport from './components/MonthlyReport';
+import NightExceptionsPanel from './components/NightExceptionsPanel';
+import OfficerStatistics from './components/OfficerStatistics';
+import PatrolCalendar from './components/PatrolCalendar';
+import PinDialog from './components/PinDialog';
+import ReminderSettingsModal from './components/ReminderSettingsModal';
+import ResidentRegistry from './components/ResidentRegistry';
+import RwOverview from './components/RwOverview';
+import ScheduleEditorModal from './components/ScheduleEditorModal';
+import SettingsModal from './components/SettingsModal';
+import SharePanel from './components/SharePanel';
+import ShiftRequestsPanel from './components/ShiftRequestsPanel';
+import TokenUnlockDialog from './components/TokenUnlockDialog';
 
 const App: React.FC = () => {
-  const [records, setRecords] = useState<AttendanceRecord[]>(() => {
-    try {
-      const savedRecords = localStorage.getItem('attendanceRecords');
-      return savedRecords ? JSON.parse(savedRecords) : [];
-    } catch (error) {
-      console.error('Error reading records from localStorage', error);
-      return [];
-    }
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [schedules, setSchedules] = useState<ScheduleVersion[]>(DEFAULT_FILE_CONTENT['schedule.json']);
+  const [cashEntries, setCashEntries] = useState<CashEntry[]>([]);
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [fineSettings, setFineSettings] = useState<FineSettings>(DEFAULT_FINE_SETTINGS);
+  const [checkInLog, setCheckInLog] = useState<CheckInLog>(DEFAULT_CHECK_IN_LOG);
+  const [shiftRequests, setShiftRequests] = useState<ShiftRequest[]>([]);
+  const [exceptions, setExceptions] = useState<NightException[]>([]);
+  const [blocks, setBlocks] = useState<Block[]>(DEFAULT_BLOCKS);
+  const [activeBlockId, setActiveBlockId] = useState(loadActiveBlockId);
+  // Folder of the block whose cached files and outbox have been read; syncing waits for it.
+  const [restoredFolder, setRestoredFolder] = useState<string | null>(null);
+  const [storageSettings, setStorageSettings] = useState<StorageSettings | null>(null);
+  const [accessSettings, setAccessSettings] = useState<AccessSettings>(loadAccessSettings);
+  const [role, setRole] = useState<Role>(() => {
+    if (getSharedDataUrl()) return 'viewer';
+    return loadAccessSettings().adminPinHash ? loadRoleSession() ?? 'viewer' : 'admin';
   });
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [actorName, setActorName] = useState(loadActorName);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(loadReminderSettings);
+  const [showReminderSettings, setShowReminderSettings] = useState(false);
+  // Saved settings whose token is still encrypted, waiting for the passphrase.
+  const [lockedSettings, setLockedSettings] = useState<StorageSettings | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [lastSync, setLastSync] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  
+  const [showSettings, setShowSettings] = useState(false);
+  const [showScheduleEditor, setShowScheduleEditor] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<AttendanceRecord | null>(null);
+  const [backfillDate, setBackfillDate] = useState<string | null>(null);
+  const [pendingConflict, setPendingConflict] = useState<{
+    conflicts: MergeConflict<any>[];
+    describe: (item: any) => { title: string; details: string };
+    resolve: (choices: ConflictChoices | null) => void;
+  } | null>(null);
+  // Opened from a submission link sent by a resident over WhatsApp.
+  const [submission, setSubmission] = useState(getSharedSubmission);
+  const [activeView, setActiveView] = useState<'absensi' | 'checkin' | 'permohonan' | 'libur' | 'kejadian' | 'statistik' | 'kas' | 'denda' | 'laporan' | 'rw' | 'warga' | 'bagikan' | 'riwayat'>(
+    () => isCheckInLink() || submission?.kind === 'checkin' ? 'checkin' : submission ? 'permohonan' : 'absensi',
+  );
+  const [isInitialized, setIsInitialized] = useState(false);
+  
+  const shas = useRef<{ [path: string]: string | undefined }>({});
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const isSyncing = useRef(false);
+  // Files whose queued changes were dropped from the conflict dialog during the last drain.
+  const cancelledPaths = useRef(new Set<SyncedFile>());
+  const blocksSha = useRef<string | undefined>(undefined);
+
+  const activeBlock = blocks.find(block => block.id === activeBlockId) ?? blocks[0];
+  // Set while rendering so every panel below already dates shifts on the block's clock.
+  setActiveShiftDateSettings(getBlockShiftDateSettings(activeBlock));
+  const folder = activeBlock.folder;
+
+  const rootBackend = useMemo(() => storageSettings && createStorageBackend(storageSettings), [storageSettings]);
+  const backend = useMemo(
+    () => rootBackend && restoredFolder === folder ? scopeBackend(rootBackend, folder) : null,
+    [rootBackend, restoredFolder, folder],
+  );
+
+  // Every block keeps its files, outbox and sync state under its own IndexedDB keys.
+  const applyFileContent = useCallback((path: SyncedFile, content: any) => {
+    if (path === 'data.json') setRecords(content);
+    else if (path === 'schedule.json') setSchedules(normalizeSchedules(content));
+    else if (path === 'residents.json') setResidents(content);
+    else if (path === 'denda.json') setFineSettings(normalizeFineSettings(content));
+    else if (path === 'checkins.json') setCheckInLog(normalizeCheckInLog(content));
+    else if (path === 'permohonan.json') setShiftRequests(content);
+    else if (path === 'pengecualian.json') setExceptions(content);
+    else setCashEntries(content);
+    cacheSet(blockPath(folder, path), content);
+  }, [folder]);
+
+  const persistOutbox = useCallback((entries: OutboxEntry[]) => {
+    outboxRef.current = entries;
+    setOutbox(entries);
+    cacheSet(blockPath(folder, 'outbox'), entries);
+  }, [folder]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const restoreBlockFromCache = async () => {
+      setRecords([]);
+      setSchedules(normalizeSchedules(getDefaultContent(folder, 'schedule.json')));
+      setCashEntries([]);
+      setResidents([]);
+      setFineSettings(DEFAULT_FINE_SETTINGS);
+      setCheckInLog(DEFAULT_CHECK_IN_LOG);
+      setShiftRequests([]);
+      setExceptions([]);
+      shas.current = {};
+      outboxRef.current = [];
+      setOutbox([]);
+      setLastSync(null);
+      setIsInitialized(false);
+      try {
+        const [cachedRecords, cachedSchedule, cachedCash, cachedResidents, cachedFines, cachedCheckIns, cachedRequests, cachedExceptions, cachedOutbox, cachedShas, cachedLastSync] = await Promise.all([
+          idbGet<AttendanceRecord[]>(blockPath(folder, 'data.json')),
+          idbGet<Schedule | ScheduleVersion[]>(blockPath(folder, 'schedule.json')),
+          idbGet<CashEntry[]>(blockPath(folder, 'kas.json')),
+          idbGet<Resident[]>(blockPath(folder, 'residents.json')),
+          idbGet<FineSettings>(blockPath(folder, 'denda.json')),
+          idbGet<CheckInLog>(blockPath(folder, 'checkins.json')),
+          idbGet<ShiftRequest[]>(blockPath(folder, 'permohonan.json')),
+          idbGet<NightException[]>(blockPath(folder, 'pengecualian.json')),
+          idbGet<OutboxEntry[]>(blockPath(folder, 'outbox')),
+          idbGet<{ [path: string]: string | undefined }>(blockPath(folder, 'shas')),
+          idbGet<string>(blockPath(folder, 'lastSync')),
+        ]);
+        if (cancelled) return;
+        if (cachedRecords) setRecords(cachedRecords);
+        if (cachedSchedule) setSchedules(normalizeSchedules(cachedSchedule));
+        if (cachedCash) setCashEntries(cachedCash);
+        if (cachedResidents) setResidents(cachedResidents);
+        if (cachedFines) setFineSettings(normalizeFineSettings(cachedFines));
+        if (cachedCheckIns) setCheckInLog(normalizeCheckInLog(cachedCheckIns));
+        if (cachedRequests) setShiftRequests(cachedRequests);
+        if (cachedExceptions) setExceptions(cachedExceptions);
+        shas.current = cachedShas || {};
+        outboxRef.current = cachedOutbox || [];
+        setOutbox(outboxRef.current);
+        setLastSync(cachedLastSync || null);
+        // The app is usable offline as soon as anything was cached before.
+        if (cachedRecords) setIsInitialized(true);
+      } catch (error) {
+        console.error('Error reading cache from IndexedDB', error);
+      }
+      if (!cancelled) setRestoredFolder(folder);
+    };
+    restoreBlockFromCache();
+    return () => { cancelled = true; };
+  }, [folder]);
+
+  useEffect(() => {
+    const restoreSettings = async () => {
+      try {
+        const cachedBlocks = await idbGet<Block[]>(BLOCKS_PATH);
+        if (cachedBlocks) setBlocks(normalizeBlocks(cachedBlocks));
+      } catch (error) {
+        console.error('Error reading cache from IndexedDB', error);
+      }
+
+      const sharedDataUrl = getSharedDataUrl();
+      const savedSettings: StorageSettings | null = sharedDataUrl ? { type: 'public', url: sharedDataUrl } : loadStorageSettings();
+      if (savedSettings && (savedSettings.type === 'github' || savedSettings.type === 'rest') && savedSettings.encryptedToken) {
+        setLockedSettings(savedSettings);
+      } else if (savedSettings) {
+        setStorageSettings(savedSettings);
+        // Tokens saved before encryption existed stay usable until re-saved.
+        if (hasToken(savedSettings)) setShowSettings(true);
+      } else {
+        setShowSettings(true);
+      }
+    };
+    restoreSettings();
+  }, []);
+
+  const applyBlocks = (content: any) => {
+    setBlocks(normalizeBlocks(content));
+    cacheSet(BLOCKS_PATH, content);
+  };
 
   useEffect(() => {
+    if (!rootBackend) return;
+    rootBackend.getFile(BLOCKS_PATH)
+      .then(file => {
+        blocksSha.current = file?.sha;
+        if (file) applyBlocks(file.content);
+      })
+      .catch(error => console.error('Error loading blocks', error));
+  }, [rootBackend]);
+
+  const loadData = useCallback(async (storage: StorageBackend) => {
+    for (const path of Object.keys(DEFAULT_FILE_CONTENT) as SyncedFile[]) {
+      let file = await storage.getFile(path);
+      const defaultContent = getDefaultContent(folder, path);
+      if (!file && storage.readOnly) {
+        file = { content: defaultContent };
+      } else if (!file) {
+        // Create if not exists
+        const result = await storage.updateFile(path, defaultContent);
+        file = { content: defaultContent, sha: result.sha };
+      }
+      // Local changes still waiting in the outbox win until they are sent.
+      if (outboxRef.current.some(entry => entry.path === path)) continue;
+      shas.current[path] = file.sha;
+      applyFileContent(path, file.content);
+    }
+  }, [folder, applyFileContent]);
+
+  const askConflictResolution = (conflicts: MergeConflict<any>[], describe: (item: any) => { title: string; details: string }) => {
+    return new Promise<ConflictChoices | null>(resolve => {
+      showSpinner(false);
+      setPendingConflict({
+        conflicts,
+        describe,
+        resolve: choices => {
+          setPendingConflict(null);
+          showSpinner(true);
+          resolve(choices);
+        },
+      });
+    });
+  };
+
+  // Saves `local`, and if someone else saved first, merges our changes since
+  // `base` into their version and saves again. Returns what is stored now:
+  // cancelling the conflict dialog drops our changes and keeps their version,
+  // so the same dialog does not come back on every sync.
+  const saveWithMerge = async <C, T>(
+    storage: StorageBackend,
+    path: SyncedFile,
+    base: C,
+    local: C,
+    strategy: MergeStrategy<C, T>,
+    message?: string,
+  ): Promise<C> => {
     try {
-      localStorage.setItem('attendanceRecords', JSON.stringify(records));
+      const result = await storage.updateFile(path, local, shas.current[path], message);
+      shas.current[path] = result.sha;
+      return local;
     } catch (error) {
-      console.error('Error saving records to localStorage', error);
+      if (!(error instanceof ShaConflictError)) throw error;
+      const latest = await storage.getFile(path);
+      const { merged, conflicts } = strategy.merge(base, local, latest ? latest.content : base);
+      let resolved = merged;
+      if (conflicts.length) {
+        const choices = await askConflictResolution(conflicts, strategy.describe);
+        if (!choices) {
+          cancelledPaths.current.add(path);
+          shas.current[path] = latest?.sha;
+          return latest ? latest.content : base;
+        }
+        resolved = strategy.resolve(merged, conflicts, choices);
+      }
+      const result = await storage.updateFile(path, resolved, latest?.sha, message);
+      shas.current[path] = result.sha;
+      return resolved;
     }
-  }, [records]);
+  };
 
-  const addRecord = useCallback((newRecord: AttendanceRecord) => {
-    setRecords(prevRecords => [...prevRecords, newRecord]);
+  const drainOutbox = async (storage: StorageBackend) => {
+    cancelledPaths.current.clear();
+    const attempted = new Set<OutboxEntry>();
+    let entry: OutboxEntry | undefined;
+    while ((entry = outboxRef.current.find(pending => !attempted.has(pending)))) {
+      attempted.add(entry);
+      const message = buildCommitMessage(entry.path, entry.messages ?? []);
+      const saved = await saveWithMerge(storage, entry.path, entry.base, entry.local, MERGE_STRATEGIES[entry.path], message);
+      // An edit queued while this one was in flight replaced the entry; it is sent on the next pass.
+      if (outboxRef.current.includes(entry)) {
+        applyFileContent(entry.path, saved);
+        persistOutbox(outboxRef.current.filter(pending => pending !== entry));
+      }
+    }
+  };
+
+  const syncWithStorage = async (storage: StorageBackend) => {
+    if (isSyncing.current) return false;
+    isSyncing.current = true;
+    showSpinner(true);
+    try {
+      try {
+        await drainOutbox(storage);
+      } catch (error) {
+        if (isNetworkError(error)) return false;
+        alert(`Gagal mengirim perubahan: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      try {
+        await loadData(storage);
+      } catch (error) {
+        if (isNetworkError(error)) return false;
+        alert(`Gagal memuat data: ${error instanceof Error ? error.message : String(error)}`);
+        // A shared read-only link has nothing to reconfigure.
+        if (getSharedDataUrl()) return false;
+        // Could be a bad token; open the settings so it can be tested and fixed.
+        setShowSettings(true);
+        return false;
+      }
+
+      const syncedAt = new Date().toISOString();
+      setLastSync(syncedAt);
+      cacheSet(blockPath(folder, 'lastSync'), syncedAt);
+      cacheSet(blockPath(folder, 'shas'), shas.current);
+      return outboxRef.current.length === 0;
+    } finally {
+      isSyncing.current = false;
+      showSpinner(false);
+      setIsInitialized(true);
+    }
+  };
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (backend) syncWithStorage(backend);
+    };
+    const handleOffline = () => setIsOnline(false);
+    if (backend) syncWithStorage(backend);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [backend]);
+
+  const handleUnlockToken = async (passphrase: string) => {
+    if (!lockedSettings || (lockedSettings.type !== 'github' && lockedSettings.type !== 'rest') || !lockedSettings.encryptedToken) return;
+    const token = await decryptSecret(lockedSettings.encryptedToken, passphrase);
+    setLockedSettings(null);
+    setStorageSettings({ ...lockedSettings, token });
+  };
+
+  // Keeps the reminders in IndexedDB current, preserving which were already shown.
+  useEffect(() => {
+    const updateReminders = async () => {
+      const previous = (await idbGet<ScheduledReminder[]>('reminders')) || [];
+      const shownIds = new Set(previous.filter(reminder => reminder.shown).map(reminder => reminder.id));
+      const reminders = buildReminders(schedules, exceptions, residents, reminderSettings, blockPath(folder, 'data.json'))
+        .map(reminder => ({ ...reminder, shown: shownIds.has(reminder.id) }));
+      await idbSet('reminders', reminders);
+    };
+    updateReminders().catch(error => console.error('Error scheduling reminders', error));
+  }, [schedules, exceptions, residents, reminderSettings, folder]);
+
+  // Cancelled and refused saves stop the caller's flow through queueChange;
+  // the user already knows, so they are not reported again as errors.
+  useEffect(() => {
+    const ignoreHandledSave = (event: PromiseRejectionEvent) => {
+      if (event.reason instanceof SaveCancelledError || event.reason instanceof ChangeRefusedError) event.preventDefault();
+    };
+    window.addEventListener('unhandledrejection', ignoreHandledSave);
+    return () => window.removeEventListener('unhandledrejection', ignoreHandledSave);
   }, []);
 
-  const handleSetRecords = useCallback((newRecords: AttendanceRecord[]) => {
-      setRecords(newRecords);
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !('Notification' in window)) return;
+    const checkReminders = () => {
+      if (Notification.permission !== 'granted') return;
+      navigator.serviceWorker.ready.then(fireDueReminders).catch(error => console.error('Error showing reminders', error));
+    };
+    checkReminders();
+    const interval = setInterval(checkReminders, 60 * 1000);
+    return () => clearInterval(interval);
   }, []);
 
+  const handleSaveReminderSettings = async (settings: ReminderSettings) => {
+    localStorage.setItem('reminderSettings', JSON.stringify(settings));
+    setReminderSettings(settings);
+    setShowReminderSettings(false);
+    if (!settings.enabled && !settings.morningNudge) return;
+    // Installed apps on supporting browsers can also be woken up while closed.
+    try {
+      const registration: any = await navigator.serviceWorker.ready;
+      await registration.periodicSync?.register('ronda-reminders', { minInterval: 60 * 60 * 1000 });
+    } catch (error) {
+      console.error('Periodic background sync unavailable', error);
+    }
+  };
+
+  const handleSaveSettings = async (settings: StorageSettings, pins: { admin: string; coordinator: string }, passphrase: string) => {
+    const updatedAccess: AccessSettings = {
+      ...accessSettings,
+      ...(pins.admin && { adminPinHash: await hashPin(pins.admin) }),
+      ...(pins.coordinator && { coordinatorPinHash: await hashPin(pins.coordinator) }),
+    };
+    localStorage.setItem('accessSettings', JSON.stringify(updatedAccess));
+    setAccessSettings(updatedAccess);
+    // Whoever just set the PINs stays admin for this session.
+    if (updatedAccess.adminPinHash) startRoleSession('admin');
+    const storedSettings = hasToken(settings)
+      ? { ...settings, token: '', encryptedToken: await encryptSecret(settings.token, passphrase) }
+      : settings;
+    localStorage.setItem('storageSettings', JSON.stringify(storedSettings));
+    localStorage.removeItem('githubSettings');
+    // Versions from the previous backend mean nothing to the new one.
+    shas.current = {};
+    setStorageSettings(settings);
+    setShowSettings(false);
+    setIsInitialized(false); // Trigger re-initialization
+  };
+
+  // Applies a change locally right away and queues it for the backend. Resolves to
+  // true when it was also synced, false when it is still waiting in the outbox.
+  const queueChange = async <C,>(path: SyncedFile, base: C, local: C, summary: string) => {
+    if (backend?.readOnly || !WRITE_ROLES[path].includes(role)) {
+      const refusal = `Perubahan tidak disimpan: ${ROLE_LABELS[role]} tidak boleh mengubah ${path}.`;
+      alert(refusal);
+      throw new ChangeRefusedError(refusal);
+    }
+    applyFileContent(path, local);
+    const existing = outboxRef.current.find(entry => entry.path === path);
+    const message = `${summary} oleh ${actorName || ROLE_LABELS[role]}`;
+    const entry: OutboxEntry = existing
+      ? { ...existing, local, changes: existing.changes + 1, messages: [...(existing.messages ?? []), message] }
+      : { path, base, local, changes: 1, messages: [message] };
+    persistOutbox([...outboxRef.current.filter(pending => pending.path !== path), entry]);
+    if (!backend || (backend.remote && !navigator.onLine)) return false;
+    const synced = await syncWithStorage(backend);
+    // The user chose to drop this change, so callers must not report it as saved.
+    if (cancelledPaths.current.delete(path)) throw new SaveCancelledError('Penyimpanan dibatalkan.');
+    return synced;
+  };
+
+  const saveRecords = async (updatedRecords: AttendanceRecord[], summary: string, successMessage: string) => {
+    const synced = await queueChange('data.json', records, updatedRecords, summary);
+    alert(synced ? successMessage : `${successMessage} Perubahan tersimpan di perangkat dan akan dikirim ke server saat online.`);
+  };
+
+  const addRecord = async (newRecord: AttendanceRecord) => {
+    await saveRecords([...records, newRecord], `${describeRecord(newRecord)} ditambahkan`, 'Data absensi berhasil disimpan!');
+  };
+
+  const addBackfillRecord = async (newRecord: AttendanceRecord) => {
+    setBackfillDate(null);
+    await addRecord(newRecord);
+  };
+
+  const updateRecord = async (updatedRecord: AttendanceRecord) => {
+    const updatedRecords = records.map(record => record.id === updatedRecord.id ? updatedRecord : record);
+    setEditingRecord(null);
+    await saveRecords(updatedRecords, `${describeRecord(updatedRecord)} diubah`, 'Data absensi berhasil diperbarui!');
+  };
+
+  const deleteRecord = async (recordToDelete: AttendanceRecord) => {
+    if (!confirm(`Hapus absensi ${recordToDelete.day} (${recordToDelete.date})?`)) return;
+    const updatedRecords = records.filter(record => record.id !== recordToDelete.id);
+    await saveRecords(updatedRecords, `${describeRecord(recordToDelete)} dihapus`, 'Data absensi berhasil dihapus!');
+  };
+
+  const updateIncidentFollowUp = async (record: AttendanceRecord, incident: Incident, followUp: FollowUpStatus) => {
+    const updatedRecord = { ...record, incidents: (record.incidents ?? []).map(other => other.id === incident.id ? { ...other, followUp } : other) };
+    const updatedRecords = records.map(other => other.id === record.id ? updatedRecord : other);
+    await saveRecords(updatedRecords, `Kejadian ${incident.category} ${record.date} ditandai ${followUp}`, 'Status tindak lanjut berhasil diperbarui!');
+  };
+
+  const importRecords = async (importedRecords: AttendanceRecord[]) => {
+    await saveRecords(importedRecords, `Impor absensi (${importedRecords.length} malam)`, 'Data berhasil diimpor!');
+  };
+
+  const addCashEntry = async (newEntry: CashEntry) => {
+    await queueChange('kas.json', cashEntries, [...cashEntries, newEntry], `Kas "${newEntry.description}" ${newEntry.date} ditambahkan`);
+    return true;
+  };
+
+  const deleteCashEntry = async (entryToDelete: CashEntry) => {
+    if (!confirm(`Hapus catatan kas "${entryToDelete.description}"?`)) return;
+    await queueChange('kas.json', cashEntries, cashEntries.filter(entry => entry.id !== entryToDelete.id), `Kas "${entryToDelete.description}" ${entryToDelete.date} dihapus`);
+  };
+
+  const payFine = async (payment: CashEntry) => {
+    const synced = await queueChange('kas.json', cashEntries, [...cashEntries, payment], `Pembayaran ${payment.description}`);
+    alert(synced ? 'Pembayaran denda berhasil dicatat!' : 'Pembayaran denda tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const saveFineSettings = async (updatedSettings: FineSettings, summary: string) => {
+    await queueChange('denda.json', fineSettings, updatedSettings, summary);
+  };
+
+  const saveCheckIn = async (checkIn: CheckIn, summary: string) => {
+    const checkIns = pruneCheckIns([...checkInLog.checkIns.filter(other => other.id !== checkIn.id), checkIn]);
+    const synced = await queueChange('checkins.json', checkInLog, { ...checkInLog, checkIns }, summary);
+    alert(synced ? 'Check-in berhasil disimpan!' : 'Check-in tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const savePos = async (pos: PosRonda | null) => {
+    await queueChange('checkins.json', checkInLog, { ...checkInLog, pos }, pos ? 'Lokasi pos ronda diatur' : 'Lokasi pos ronda dihapus');
+  };
+
+  const saveShiftRequests = async (updatedRequests: ShiftRequest[], summary: string) => {
+    const synced = await queueChange('permohonan.json', shiftRequests, updatedRequests, summary);
+    alert(synced ? 'Permohonan berhasil disimpan!' : 'Permohonan tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const saveExceptions = async (updatedExceptions: NightException[], summary: string) => {
+    const synced = await queueChange('pengecualian.json', exceptions, updatedExceptions, summary);
+    alert(synced ? 'Malam khusus berhasil disimpan!' : 'Malam khusus tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const handleSaveSchedule = async (newSchedules: ScheduleVersion[]) => {
+    setShowScheduleEditor(false);
+    const synced = await queueChange('schedule.json', schedules, newSchedules, 'Jadwal ronda diperbarui');
+    alert(synced ? 'Jadwal berhasil diperbarui!' : 'Jadwal tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const saveResidents = async (updatedResidents: Resident[]) => {
+    const synced = await queueChange('residents.json', residents, updatedResidents, 'Daftar warga diperbarui');
+    alert(synced ? 'Daftar warga berhasil disimpan!' : 'Daftar warga tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const saveDayPreferences = async (updatedResidents: Resident[]) => {
+    await queueChange('residents.json', residents, updatedResidents, 'Preferensi hari ronda diperbarui');
+  };
+
+  const handleUnlock = (unlockedRole: Role, name: string) => {
+    startRoleSession(unlockedRole);
+    setRole(unlockedRole);
+    changeActorName(name);
+    setShowPinDialog(false);
+  };
+
+  const changeActorName = (name: string) => {
+    localStorage.setItem('actorName', name);
+    setActorName(name);
+  };
+
+  const editActorName = () => {
+    const name = prompt('Nama pencatat perubahan:', actorName);
+    if (name?.trim()) changeActorName(name.trim());
+  };
+
+  const restoreVersion = async (path: SyncedFile, content: any, commit: FileCommit) => {
+    const current = path === 'data.json' ? records : schedules;
+    const when = new Date(commit.date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+    const synced = await queueChange(path, current, content, `${path} dikembalikan ke versi ${commit.sha.slice(0, 7)} (${when})`);
+    alert(synced ? 'Versi lama berhasil dikembalikan!' : 'Versi lama tersimpan di perangkat dan akan dikirim ke server saat online.');
+  };
+
+  const switchBlock = (blockId: string) => {
+    // Whatever is in flight belongs to the current block's files.
+    if (isSyncing.current) {
+      alert('Tunggu sinkronisasi selesai sebelum berpindah blok.');
+      return;
+    }
+    saveActiveBlockId(blockId);
+    setActiveBlockId(blockId);
+    setEditingRecord(null);
+    setBackfillDate(null);
+  };
+
+  // blocks.json changes rarely and only by an admin, so it is saved directly instead of
+  // through the outbox.
+  const saveBlocks = async (updatedBlocks: Block[], summary: string) => {
+    if (!rootBackend || rootBackend.readOnly) return;
+    showSpinner(true);
+    try {
+      const result = await rootBackend.updateFile(BLOCKS_PATH, updatedBlocks, blocksSha.current, `${summary} oleh ${actorName || ROLE_LABELS[role]}`);
+      blocksSha.current = result.sha;
+      applyBlocks(updatedBlocks);
+    } catch (error) {
+      alert(`Gagal menyimpan daftar blok: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      showSpinner(false);
+    }
+  };
+
+  const addBlock = async (name: string) => {
+    await saveBlocks([...blocks, createBlock(name, blocks)], `${name} ditambahkan`);
+  };
+
+  const renameBlock = async (block: Block, name: string) => {
+    await saveBlocks(blocks.map(other => other.id === block.id ? { ...other, name } : other), `${block.name} diganti nama menjadi ${name}`);
+  };
+
+  const saveShiftDate = async (block: Block, settings: ShiftDateSettings) => {
+    await saveBlocks(blocks.map(other => other.id === block.id ? { ...other, ...settings } : other), `Waktu ronda ${block.name} diubah`);
+  };
+
+  // Other blocks' records for the RW overview; this device's cache stands in when offline.
+  const loadBlockFile = useCallback(async <T,>(block: Block, path: SyncedFile): Promise<T> => {
+    const scopedPath = blockPath(block.folder, path);
+    try {
+      const file = rootBackend && await rootBackend.getFile(scopedPath);
+      if (file) return file.content;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+    return (await idbGet<T>(scopedPath)) ?? getDefaultContent(block.folder, path);
+  }, [rootBackend]);
+
+  const loadBlockRecords = useCallback(async (block: Block) => {
+    const [blockRecords, blockExceptions] = await Promise.all([
+      loadBlockFile<AttendanceRecord[]>(block, 'data.json'),
+      loadBlockFile<NightException[]>(block, 'pengecualian.json'),
+    ]);
+    return withoutCancelledNights(blockRecords, blockExceptions);
+  }, [loadBlockFile]);
+
+  // Cancelled nights never count towards attendance, fines or the RW totals.
+  const countedRecords = useMemo(() => withoutCancelledNights(records, exceptions), [records, exceptions]);
+
+  const lock = () => {
+    sessionStorage.removeItem(ROLE_SESSION_KEY);
+    setRole('viewer');
+    setActiveView('absensi');
+  };
+
+  const canRecord = !backend?.readOnly && role !== 'viewer';
+
+  const closeSubmission = () => {
+    clearSharedSubmission();
+    setSubmission(null);
+  };
+  const isAdmin = role === 'admin';
+  const canEditAdminData = !backend?.readOnly && isAdmin;
+  // The settings hold the token, so they stay closed on a shared read-only link.
+  const canConfigure = isAdmin && !getSharedDataUrl();
+
+  const migrateRegistry = async () => {
+    const migration = migrateNamesToRegistry(residents, schedules, records);
+    const summary = migration.created.length
+      ? `${migration.created.length} warga baru akan dibuat:\n${migration.created.map(resident => `- ${resident.name}`).join('\n')}`
+      : 'Semua nama cocok dengan warga yang sudah terdaftar.';
+    if (!confirm(`${summary}\n\nJadwal dan absensi akan dihubungkan ke daftar warga. Lanjutkan?`)) return;
+    const commitSummary = 'Nama petugas dihubungkan ke daftar warga';
+    const relinked = relinkFines(records, migration.records, cashEntries, fineSettings);
+    await queueChange('residents.json', residents, migration.residents, commitSummary);
+    await queueChange('schedule.json', schedules, migration.schedules, commitSummary);
+    await queueChange('data.json', records, migration.records, commitSummary);
+    if (relinked.entries !== cashEntries) await queueChange('kas.json', cashEntries, relinked.entries, commitSummary);
+    if (relinked.settings !== fineSettings) await queueChange('denda.json', fineSettings, relinked.settings, commitSummary);
+  };
+
+  const needsMigration = useMemo(() => hasUnlinkedNames(residents, schedules, records), [residents, schedules, records]);
+
+  const pendingChanges = outbox.reduce((sum, entry) => sum + entry.changes, 0);
+
   return (
     <div className="min-h-screen bg-gray-900 text-white font-sans p-4 sm:p-8">
+      {showSettings && canConfigure && <SettingsModal onSave={handleSaveSettings} onClose={() => storageSettings && setShowSettings(false)} currentSettings={storageSettings} accessSettings={accessSettings} folder={folder} />}
+      {lockedSettings && <TokenUnlockDialog onUnlock={handleUnlockToken} onSkip={() => setLockedSettings(null)} />}
+      {showReminderSettings && <ReminderSettingsModal settings={reminderSettings} residents={residents} onSave={handleSaveReminderSettings} onClose={() => setShowReminderSettings(false)} />}
+      {showPinDialog && <PinDialog accessSettings={accessSettings} roster={getRoster(residents)} onUnlock={handleUnlock} onClose={() => setShowPinDialog(false)} />}
+      {showScheduleEditor && canEditAdminData && <ScheduleEditorModal schedules={schedules} residents={residents} records={countedRecords} onSave={handleSaveSchedule} onSaveResidents={saveDayPreferences} onClose={() => setShowScheduleEditor(false)} />}
+      {pendingConflict && <ConflictDialog conflicts={pendingConflict.conflicts} describe={pendingConflict.describe} onResolve={pendingConflict.resolve} />}
+      {editingRecord && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-40 p-4">
+          <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <AttendanceForm addRecord={addRecord} updateRecord={updateRecord} existingRecords={records} schedules={schedules} residents={residents} checkIns={checkInLog.checkIns} shiftRequests={shiftRequests} exceptions={exceptions} editingRecord={editingRecord} onCancelEdit={() => setEditingRecord(null)} />
+          </div>
+        </div>
+      )}
+      {backfillDate && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-40 p-4">
+          <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <AttendanceForm addRecord={addBackfillRecord} updateRecord={updateRecord} existingRecords={records} schedules={schedules} residents={residents} checkIns={checkInLog.checkIns} shiftRequests={shiftRequests} exceptions={exceptions} initialDate={backfillDate} onCancelEdit={() => setBackfillDate(null)} />
+          </div>
+        </div>
+      )}
+      
       <main className="container mx-auto">
-        <header className="text-center mb-10">
-          <h1 className="text-4xl sm:text-5xl font-extrabold tracking-tight text-teal-400">JADWAL RONDA</h1>
-          <p className="text-lg sm:text-xl text-gray-300 mt-2">BLOK H PERUM TANJUNG RESIDENCE</p>
+        <header className="text-center mb-10 relative">
+          <h1 className="text-4xl sm:text-5xl font-extrabold text-teal-400">JADWAL RONDA</h1>
+          {blocks.length > 1 ? (
+            <select value={activeBlock.id} onChange={(e) => switchBlock(e.target.value)} className="mt-2 bg-gray-800 border border-gray-600 rounded-md p-2 text-lg sm:text-xl text-gray-300 uppercase">
+              {blocks.map(block => <option key={block.id} value={block.id}>{`${block.name} ${PERUMAHAN_NAME}`}</option>)}
+            </select>
+          ) : (
+            <p className="text-lg sm:text-xl text-gray-300 mt-2 uppercase">{`${activeBlock.name} ${PERUMAHAN_NAME}`}</p>
+          )}
+          {isInitialized && (
+            <div className="flex flex-wrap justify-center items-center gap-x-3 gap-y-1 mt-3 text-sm text-gray-400">
+              {!isOnline && <span className="px-2 py-0.5 rounded bg-yellow-600 text-yellow-100">Offline</span>}
+              <span className="px-2 py-0.5 rounded bg-gray-700 text-gray-200">{backend?.readOnly ? 'Mode baca saja' : ROLE_LABELS[role]}</span>
+              {canRecord && (
+                <button onClick={editActorName} className="hover:underline">
+                  {actorName ? `Pencatat: ${actorName}` : 'Isi nama pencatat'}
+                </button>
+              )}
+              <span>{pendingChanges > 0 ? `${pendingChanges} perubahan menunggu sinkronisasi` : 'Semua perubahan tersinkron'}</span>
+              {lastSync && <span>{`Sinkron terakhir: ${new Date(lastSync).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}`}</span>}
+              {backend && (isOnline || !backend.remote) && <button onClick={() => syncWithStorage(backend)} className="text-teal-400 hover:underline">Sinkronkan</button>}
+            </div>
+          )}
+          <div className="absolute top-0 right-0 flex gap-2">
+            {accessSettings.adminPinHash && !getSharedDataUrl() && (role === 'viewer'
+              ? <button onClick={() => setShowPinDialog(true)} className="bg-gray-700 hover:bg-gray-600 py-2 px-4 rounded-full text-sm font-semibold">Masuk</button>
+              : <button onClick={lock} className="bg-gray-700 hover:bg-gray-600 py-2 px-4 rounded-full text-sm font-semibold">Keluar</button>
+            )}
+            {isInitialized && (
+                <button onClick={() => setShowReminderSettings(true)} title="Pengingat" className="bg-gray-700 hover:bg-gray-600 p-2 rounded-full">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
+                </button>
+            )}
+            {isInitialized && canEditAdminData && (
+                <button onClick={() => setShowScheduleEditor(true)} title="Ubah Jadwal" className="bg-gray-700 hover:bg-gray-600 p-2 rounded-full">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+                </button>
+            )}
+            {isInitialized && canConfigure && (
+                <button onClick={() => setShowSettings(true)} title="Pengaturan Penyimpanan" className="bg-gray-700 hover:bg-gray-600 p-2 rounded-full">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+                </button>
+            )}
+          </div>
         </header>
 
-        <AttendanceForm addRecord={addRecord} existingRecords={records} />
-
-        <AttendanceRecap records={records} setRecords={handleSetRecords} />
+        {isInitialized ? (
+            <>
+                <nav className="flex flex-wrap justify-center gap-2 mb-8">
+                    {([['absensi', 'Absensi'], ['checkin', 'Check-in'], ['permohonan', 'Ijin & Tukar'], ['libur', 'Malam Khusus'], ['kejadian', 'Kejadian'], ['statistik', 'Statistik'], ['kas', 'Kas'], ['denda', 'Denda'], ['laporan', 'Laporan'], ['rw', 'RW'], ['warga', 'Warga'], ['bagikan', 'Bagikan'], ['riwayat', 'Riwayat']] as const)
+                      // The registry holds phone numbers, so only admins see it.
+                      .filter(([view]) => view === 'warga' ? isAdmin : view === 'bagikan' || view === 'riwayat' ? canRecord : true)
+                      .map(([view, label]) => (
+                        <button key={view} onClick={() => setActiveView(view)} className={`py-2 px-4 rounded-lg font-semibold ${activeView === view ? 'bg-teal-600' : 'bg-gray-700 hover:bg-gray-600'}`}>{label}</button>
+                    ))}
+                </nav>
+                {activeView === 'absensi' && (
+                    <>
+                        {canRecord && <AttendanceForm addRecord={addRecord} updateRecord={updateRecord} existingRecords={records} schedules={schedules} residents={residents} checkIns={checkInLog.checkIns} shiftRequests={shiftRequests} exceptions={exceptions} />}
+                        <PatrolCalendar records={records} schedules={schedules} exceptions={exceptions} onOpenRecord={canRecord ? setEditingRecord : undefined} onBackfill={canRecord ? setBackfillDate : undefined} />
+                        <AttendanceRecap
+                          records={records}
+                          residents={residents}
+                          exceptions={exceptions}
+                          onEdit={canRecord ? setEditingRecord : undefined}
+                          onDelete={canRecord ? deleteRecord : undefined}
+                          onImport={canEditAdminData ? importRecords : undefined}
+                        />
+                    </>
+                )}
+                {activeView === 'checkin' && (
+                  <CheckInPanel
+                    schedules={schedules}
+                    exceptions={exceptions}
+                    residents={residents}
+                    checkInLog={checkInLog}
+                    blockId={activeBlock.id}
+                    dataUrl={getPublicDataUrl(storageSettings)}
+                    showLink={canRecord}
+                    submission={submission}
+                    onCloseSubmission={closeSubmission}
+                    onSaveCheckIn={canRecord ? saveCheckIn : undefined}
+                    onSavePos={canEditAdminData ? savePos : undefined}
+                  />
+                )}
+                {activeView === 'permohonan' && (
+                  <ShiftRequestsPanel
+                    schedules={schedules}
+                    exceptions={exceptions}
+                    residents={residents}
+                    requests={shiftRequests}
+                    actorName={actorName}
+                    isAdmin={isAdmin}
+                    blockId={activeBlock.id}
+                    submission={submission}
+                    onCloseSubmission={closeSubmission}
+                    onSave={canRecord ? saveShiftRequests : undefined}
+                  />
+                )}
+                {activeView === 'libur' && (
+                  <NightExceptionsPanel
+                    schedules={schedules}
+                    residents={residents}
+                    exceptions={exceptions}
+                    onSave={canEditAdminData ? saveExceptions : undefined}
+                  />
+                )}
+                {activeView === 'kejadian' && <IncidentOverview records={records} onUpdateFollowUp={canRecord ? updateIncidentFollowUp : undefined} />}
+                {activeView === 'statistik' && <OfficerStatistics records={countedRecords} residents={residents} />}
+                {activeView === 'kas' && <CashLedger records={records} entries={cashEntries} onAddEntry={canRecord ? addCashEntry : undefined} onDeleteEntry={canRecord ? deleteCashEntry : undefined} />}
+                {activeView === 'denda' && (
+                  <FinesPanel
+                    records={countedRecords}
+                    residents={residents}
+                    fineSettings={fineSettings}
+                    cashEntries={cashEntries}
+                    onSaveSettings={canEditAdminData ? saveFineSettings : undefined}
+                    onPay={canRecord ? payFine : undefined}
+                  />
+                )}
+                {activeView === 'laporan' && <MonthlyReport records={countedRecords} blockName={activeBlock.name} />}
+                {activeView === 'rw' && (
+                  <RwOverview
+                    blocks={blocks}
+                    activeBlockId={activeBlock.id}
+                    activeRecords={countedRecords}
+                    loadRecords={loadBlockRecords}
+                    onOpenBlock={switchBlock}
+                    onAddBlock={canEditAdminData ? addBlock : undefined}
+                    onRenameBlock={canEditAdminData ? renameBlock : undefined}
+                    onSaveShiftDate={canEditAdminData ? saveShiftDate : undefined}
+                  />
+                )}
+                {activeView === 'bagikan' && canRecord && <SharePanel records={records} schedules={schedules} exceptions={exceptions} residents={residents} blockName={activeBlock.name} />}
+                {activeView === 'riwayat' && canRecord && (
+                  <HistoryPanel
+                    settings={storageSettings?.type === 'github' ? storageSettings : null}
+                    folder={folder}
+                    onRestore={canEditAdminData ? restoreVersion : undefined}
+                  />
+                )}
+                {activeView === 'warga' && isAdmin && <ResidentRegistry residents={residents} needsMigration={needsMigration && canEditAdminData} onSave={saveResidents} onMigrate={migrateRegistry} />}
+            </>
+        ) : (
+            <div className="text-center text-gray-400 mt-20">
+                <p>{storageSettings ? 'Memuat data...' : canConfigure ? 'Harap konfigurasikan pengaturan penyimpanan untuk memulai.' : 'Aplikasi belum dikonfigurasi. Masuk sebagai admin untuk mengaturnya.'}</p>
+                {!storageSettings && canConfigure && !showSettings && <button onClick={() => setShowSettings(true)} className="mt-4 py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded text-white">Buka Pengaturan</button>}
+            </div>
+        )}
         
         <footer className="text-center mt-12 text-gray-500 text-sm">
-          <p>Dibuat untuk mempermudah pencatatan ronda Blok H.</p>
+          <p>{`Dibuat untuk mempermudah pencatatan ronda ${activeBlock.name}.`}</p>
         </footer>
       </main>
     </div>
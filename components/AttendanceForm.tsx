@@ -1,48 +1,162 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AttendanceRecord, AttendanceStatus, CheckIn, Incident, NightException, OfficerAttendance, Resident, ScheduleVersion, ShiftRequest } from '../types';
+import { NAMA_HARI } from '../constants';
+import { getShiftLabel } from '../utils/dates';
+import { findResidentByName, getOfficerName, getRoster, normalizeName, toOfficerAttendance } from '../utils/residents';
+import { getNightException, NIGHT_EXCEPTION_LABELS, resolveNightOfficers } from '../utils/nightExceptions';
+import { formatShiftTime, getDayIndex, getShiftDate } from '../utils/shiftDate';
+import { applyApprovedRequests } from '../utils/shiftRequests';
+import IncidentListEditor from './IncidentListEditor';
 
-import React, { useState, useMemo, useCallback } from 'react';
-import { AttendanceRecord, AttendanceStatus, OfficerAttendance } from '../types';
-import { JADWAL_RONDA, NAMA_HARI } from '../constants';
-
-interface AttendanceFormProps {
-  addRecord: (record: AttendanceRecord) => void;
+const AttendanceForm: React.FC<{
+  addRecord: (record: AttendanceRecord) => Promise<void>;
+  updateRecord: (record: AttendanceRecord) => Promise<void>;
   existingRecords: AttendanceRecord[];
-}
+  schedules: ScheduleVersion[];
+  residents: Resident[];
+  checkIns?: CheckIn[];
+  shiftRequests?: ShiftRequest[];
+  exceptions?: NightException[];
+  editingRecord?: AttendanceRecord | null;
+  initialDate?: string;
+  onCancelEdit?: () => void;
+}> = ({ addRecord, updateRecord, existingRecords, schedules, residents, checkIns = [], shiftRequests = [], exceptions = [], editingRecord, initialDate, onCancelEdit }) => {
+  // By default the form is for the night the current time belongs to, e.g. on
+  // Tuesday morning it shows Monday night. Any earlier night can be picked to backfill it.
+  const currentShiftDate = getShiftDate();
 
-const AttendanceForm: React.FC<AttendanceFormProps> = ({ addRecord, existingRecords }) => {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  const todayDateString = today.toISOString().split('T')[0];
+  const [selectedDate, setSelectedDate] = useState(editingRecord?.date ?? initialDate ?? currentShiftDate);
+  const dayOfWeek = getDayIndex(selectedDate);
+
+  const exception = getNightException(exceptions, selectedDate);
+
+  // The schedule with the night's exception and approved swaps and ijin requests applied.
+  const requestedNight = useMemo(
+    () => applyApprovedRequests(resolveNightOfficers(schedules, exceptions, selectedDate), shiftRequests, selectedDate),
+    [schedules, exceptions, shiftRequests, selectedDate],
+  );
+
+  // Resident IDs, or plain names for guests and pre-registry entries.
+  const officersOnDuty = useMemo(() => {
+    if (editingRecord) return editingRecord.officers.filter(officer => !officer.nonScheduled).map(officer => officer.residentId ?? officer.name);
+    return requestedNight.onDuty;
+  }, [editingRecord, requestedNight]);
+
+  const roster = useMemo(() => getRoster(residents), [residents]);
+  const officerName = (ref: string) => getOfficerName(residents, ref);
+
+  // Times from the officers' own check-ins, keyed like `statuses`. An edited
+  // record keeps the times it was saved with.
+  const checkInTimes = useMemo(() => {
+    const times: { [key: string]: Pick<OfficerAttendance, 'arrivedAt' | 'departedAt' | 'reportedDistance'> } = {};
+    if (editingRecord) {
+      editingRecord.officers.filter(officer => officer.arrivedAt).forEach(officer => {
+        times[officer.residentId ?? officer.name] = { arrivedAt: officer.arrivedAt, departedAt: officer.departedAt, reportedDistance: officer.reportedDistance };
+      });
+    } else {
+      checkIns.filter(checkIn => checkIn.date === selectedDate).forEach(checkIn => {
+        times[checkIn.residentId] = { arrivedAt: checkIn.arrivedAt, departedAt: checkIn.departedAt, ...(checkIn.distance !== undefined && { reportedDistance: checkIn.distance }) };
+      });
+    }
+    return times;
+  }, [editingRecord, checkIns, selectedDate]);
+
+  const checkInLabel = (ref: string) => {
+    const times = checkInTimes[ref];
+    if (!times?.arrivedAt) return null;
+    return `Check-in ${formatShiftTime(times.arrivedAt)}${times.departedAt ? `–${formatShiftTime(times.departedAt)}` : ''}${times.reportedDistance !== undefined ? `, ${times.reportedDistance} m dari pos menurut ponsel petugas` : ''}`;
+  };
 
-  const officersOnDuty = useMemo(() => JADWAL_RONDA[dayOfWeek] || [], [dayOfWeek]);
-  
   const initialStatuses = useMemo(() => {
+    if (editingRecord) {
+      return editingRecord.officers.filter(officer => !officer.nonScheduled).reduce((acc, officer) => {
+        acc[officer.residentId ?? officer.name] = officer.status;
+        return acc;
+      }, {} as { [key: string]: AttendanceStatus });
+    }
+    // Approved ijin come first. A missing check-in only shows next to the
+    // name; marking Alpa is left to the coordinator, since it leads to a fine.
     return officersOnDuty.reduce((acc, name) => {
-      acc[name] = AttendanceStatus.Hadir;
+      acc[name] = requestedNight.ijin.includes(name) ? AttendanceStatus.Ijin : AttendanceStatus.Hadir;
       return acc;
     }, {} as { [key: string]: AttendanceStatus });
-  }, [officersOnDuty]);
+  }, [editingRecord, officersOnDuty, requestedNight]);
+
+  const initialReplacements = useMemo(() => {
+    if (!editingRecord) return {};
+    return editingRecord.officers.reduce((acc, officer) => {
+      if (officer.replacedBy) acc[officer.residentId ?? officer.name] = officer.replacedBy;
+      return acc;
+    }, {} as { [key: string]: string });
+  }, [editingRecord]);
+
+  const initialExtraOfficers = useMemo(() => {
+    // Volunteers who checked in join as additional officers.
+    if (!editingRecord) return Object.keys(checkInTimes).filter(ref => !officersOnDuty.includes(ref)).map(ref => getOfficerName(residents, ref));
+    return editingRecord.officers.filter(officer => officer.nonScheduled).map(officer => officer.name);
+  }, [editingRecord, checkInTimes, officersOnDuty, residents]);
 
   const [statuses, setStatuses] = useState<{ [key: string]: AttendanceStatus }>(initialStatuses);
-  const [notes, setNotes] = useState('');
-  const [collection, setCollection] = useState('');
+  const [replacements, setReplacements] = useState<{ [key: string]: string }>(initialReplacements);
+  const [extraOfficers, setExtraOfficers] = useState<string[]>(initialExtraOfficers);
+  const [newExtraOfficer, setNewExtraOfficer] = useState('');
+  const [notes, setNotes] = useState(editingRecord?.notes ?? '');
+  const [incidents, setIncidents] = useState<Incident[]>(editingRecord?.incidents ?? []);
+  const [collection, setCollection] = useState(editingRecord?.collection ? String(editingRecord.collection) : '');
+
+  // Statuses and volunteers changed by hand. Every sync hands the form new
+  // schedules, residents and check-ins, which must not undo those changes.
+  const touched = useRef({ statuses: new Set<string>(), extras: new Set<string>() });
+
+  const resetOfficers = () => {
+    touched.current = { statuses: new Set(), extras: new Set() };
+    setStatuses(initialStatuses);
+    setReplacements(initialReplacements);
+    setExtraOfficers(initialExtraOfficers);
+  };
+
+  // Only another night or record starts the form over.
+  useEffect(resetOfficers, [selectedDate, editingRecord]);
+
+  // Check-ins arriving later, e.g. from an officer's phone, fill in whatever was not changed by hand.
+  useEffect(() => {
+    setStatuses(prev => {
+      const merged = { ...initialStatuses };
+      touched.current.statuses.forEach(ref => {
+        if (prev[ref]) merged[ref] = prev[ref];
+      });
+      return merged;
+    });
+    setExtraOfficers(prev => [...prev, ...initialExtraOfficers.filter(name => !prev.includes(name) && !touched.current.extras.has(name))]);
+  }, [initialStatuses, initialExtraOfficers]);
 
   const isAlreadySubmitted = useMemo(() => {
-    return existingRecords.some(record => record.date === todayDateString);
-  }, [existingRecords, todayDateString]);
+    if (editingRecord) return false;
+    return existingRecords.some(record => record.date === selectedDate);
+  }, [editingRecord, existingRecords, selectedDate]);
   
   const handleStatusChange = (name: string, status: AttendanceStatus) => {
+    touched.current.statuses.add(name);
     setStatuses(prev => ({ ...prev, [name]: status }));
   };
 
-  const formatCurrency = (value: string) => {
-    if (!value) return '';
-    const numberValue = parseInt(value.replace(/[^0-9]/g, ''), 10);
-    if (isNaN(numberValue)) return '';
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0,
-    }).format(numberValue);
+  const handleReplacementChange = (name: string, replacement: string) => {
+    setReplacements(prev => ({ ...prev, [name]: replacement }));
+  };
+
+  const addExtraOfficer = () => {
+    const name = newExtraOfficer.trim();
+    const isOnDuty = officersOnDuty.some(ref => normalizeName(officerName(ref)) === normalizeName(name));
+    if (name && !extraOfficers.includes(name) && !isOnDuty) {
+      touched.current.extras.delete(name);
+      setExtraOfficers([...extraOfficers, name]);
+    }
+    setNewExtraOfficer('');
+  };
+
+  const removeExtraOfficer = (name: string) => {
+    touched.current.extras.add(name);
+    setExtraOfficers(extraOfficers.filter(n => n !== name));
   };
   
   const handleCollectionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -50,48 +164,113 @@ const AttendanceForm: React.FC<AttendanceFormProps> = ({ addRecord, existingReco
     setCollection(rawValue);
   };
   
-  const handleSubmit = useCallback((e: React.FormEvent) => {
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     if (isAlreadySubmitted) {
-      alert('Absensi untuk hari ini sudah diisi.');
+      alert('Absensi untuk tanggal ini sudah diisi.');
+      return;
+    }
+
+    const missingReplacement = officersOnDuty.find(ref => statuses[ref] === AttendanceStatus.Diganti && !replacements[ref]?.trim());
+    if (missingReplacement) {
+      alert(`Isi nama pengganti untuk ${officerName(missingReplacement)}.`);
       return;
     }
 
-    const officerData: OfficerAttendance[] = officersOnDuty.map(name => ({
-      name,
-      status: statuses[name] || AttendanceStatus.Alpa,
-    }));
+    const withCheckInTimes = (officer: OfficerAttendance): OfficerAttendance => ({ ...officer, ...checkInTimes[officer.residentId ?? officer.name] });
+    const officerData: OfficerAttendance[] = officersOnDuty.map(ref => {
+      const officer = withCheckInTimes(toOfficerAttendance(residents, ref, statuses[ref] || AttendanceStatus.Alpa));
+      if (officer.status !== AttendanceStatus.Diganti) return officer;
+      const replacedBy = replacements[ref].trim();
+      const replacement = findResidentByName(residents, replacedBy);
+      return { ...officer, replacedBy, ...(replacement && { replacedById: replacement.id }) };
+    });
+    extraOfficers.forEach(name => {
+      officerData.push(withCheckInTimes({ ...toOfficerAttendance(residents, name, AttendanceStatus.Hadir), nonScheduled: true }));
+    });
     
+    if (editingRecord) {
+      await updateRecord({
+        ...editingRecord,
+        officers: officerData,
+        notes,
+        collection: parseInt(collection, 10) || 0,
+        incidents,
+      });
+      return;
+    }
+
     const newRecord: AttendanceRecord = {
       id: new Date().toISOString(),
-      date: todayDateString,
-      day: `${NAMA_HARI[dayOfWeek]} malam ${NAMA_HARI[(dayOfWeek + 1) % 7]}`,
+      date: selectedDate,
+      day: getShiftLabel(dayOfWeek),
       officers: officerData,
       notes,
       collection: parseInt(collection, 10) || 0,
+      ...(incidents.length > 0 && { incidents }),
     };
 
-    addRecord(newRecord);
+    await addRecord(newRecord);
 
-    setStatuses(initialStatuses);
+    resetOfficers();
     setNotes('');
     setCollection('');
-    alert('Data absensi berhasil disimpan!');
-  }, [addRecord, collection, initialStatuses, isAlreadySubmitted, notes, officersOnDuty, statuses, dayOfWeek, todayDateString]);
+    setIncidents([]);
+  }, [addRecord, updateRecord, editingRecord, residents, collection, initialStatuses, initialReplacements, initialExtraOfficers, isAlreadySubmitted, notes, incidents, officersOnDuty, statuses, replacements, extraOfficers, checkInTimes, dayOfWeek, selectedDate]);
+
+  const datePicker = (
+    <div className="flex justify-center items-center gap-2 mb-6">
+      <label htmlFor="shiftDate" className="text-sm text-gray-400">Tanggal ronda</label>
+      <input
+        id="shiftDate"
+        type="date"
+        value={selectedDate}
+        max={currentShiftDate}
+        disabled={!!editingRecord}
+        onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+        className="bg-gray-700 border-gray-600 rounded-md p-2 disabled:opacity-60"
+      />
+    </div>
+  );
+
+  if (!editingRecord && exception?.type === 'batal') {
+    return (
+      <div className="bg-gray-800 p-6 rounded-xl shadow-lg text-center">
+        {datePicker}
+        <h2 className="text-xl font-bold text-gray-300 mb-2">Ronda Ditiadakan</h2>
+        <p className="text-gray-400">{exception.reason || 'Tidak ada ronda pada malam ini, jadi absensinya tidak perlu diisi.'}</p>
+      </div>
+    );
+  }
+
+  if (!officersOnDuty.length) {
+    return (
+       <div className="bg-gray-800 p-6 rounded-xl shadow-lg text-center">
+        {datePicker}
+        <h2 className="text-xl font-bold text-yellow-400 mb-2">Jadwal Belum Diatur</h2>
+        <p className="text-gray-300">Jadwal ronda untuk tanggal ini belum diatur. Silakan ubah jadwal melalui tombol di atas.</p>
+      </div>
+    );
+  }
 
   if (isAlreadySubmitted) {
     return (
       <div className="bg-gray-800 p-6 rounded-xl shadow-lg text-center">
+        {datePicker}
         <h2 className="text-2xl font-bold text-teal-400 mb-2">Terima Kasih!</h2>
-        <p className="text-gray-300">Absensi untuk jadwal hari ini telah diisi.</p>
+        <p className="text-gray-300">Absensi untuk jadwal tanggal ini telah diisi.</p>
       </div>
     );
   }
 
   return (
     <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto">
-      <h2 className="text-2xl font-bold text-center mb-2 text-teal-400">Form Absensi Ronda</h2>
-      <p className="text-center text-gray-400 mb-6">{`Jadwal: ${NAMA_HARI[dayOfWeek]} Malam ${NAMA_HARI[(dayOfWeek + 1) % 7]}`}</p>
+      <h2 className="text-2xl font-bold text-center mb-2 text-teal-400">{editingRecord ? 'Ubah Absensi Ronda' : 'Form Absensi Ronda'}</h2>
+      <p className="text-center text-gray-400 mb-4">{`Jadwal: ${NAMA_HARI[dayOfWeek]} Malam ${NAMA_HARI[(dayOfWeek + 1) % 7]}`}</p>
+      {!editingRecord && exception && (
+        <p className="text-center text-sm text-purple-300 mb-4">{`${NIGHT_EXCEPTION_LABELS[exception.type]}${exception.reason ? `: ${exception.reason}` : ''}`}</p>
+      )}
+      {datePicker}
       
       <form onSubmit={handleSubmit} className="space-y-8">
         <div>
@@ -99,59 +278,81 @@ const AttendanceForm: React.FC<AttendanceFormProps> = ({ addRecord, existingReco
           <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
             {officersOnDuty.map(name => (
               <div key={name} className="bg-gray-700/50 p-4 rounded-lg">
-                <p className="font-medium text-gray-200 mb-2">{name}</p>
-                <div className="flex space-x-4">
-                  {(Object.keys(AttendanceStatus) as Array<keyof typeof AttendanceStatus>).map(statusKey => (
-                    <label key={statusKey} className="flex items-center space-x-2 cursor-pointer text-sm">
+                <p className="font-medium text-gray-200 mb-2">{officerName(name)}</p>
+                {checkInLabel(name) && <p className="text-xs text-green-400 -mt-1 mb-2">{checkInLabel(name)}</p>}
+                {!editingRecord && !checkInTimes[name] && Object.keys(checkInTimes).length > 0 && !requestedNight.ijin.includes(name) && <p className="text-xs text-gray-400 -mt-1 mb-2">Belum check-in</p>}
+                {!editingRecord && requestedNight.ijin.includes(name) && <p className="text-xs text-yellow-400 -mt-1 mb-2">Ijin sudah disetujui</p>}
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {(Object.values(AttendanceStatus)).map(statusValue => (
+                    <label key={statusValue} className="flex items-center space-x-2 cursor-pointer text-sm">
                       <input
                         type="radio"
                         name={`status-${name}`}
-                        value={AttendanceStatus[statusKey]}
-                        checked={statuses[name] === AttendanceStatus[statusKey]}
-                        onChange={() => handleStatusChange(name, AttendanceStatus[statusKey])}
+                        value={statusValue}
+                        checked={statuses[name] === statusValue}
+                        onChange={() => handleStatusChange(name, statusValue)}
                         className="form-radio h-4 w-4 text-teal-500 bg-gray-700 border-gray-600 focus:ring-teal-500"
                       />
-                      <span>{AttendanceStatus[statusKey]}</span>
+                      <span>{statusValue === AttendanceStatus.Diganti ? 'Diganti oleh' : statusValue}</span>
                     </label>
                   ))}
                 </div>
+                {statuses[name] === AttendanceStatus.Diganti && (
+                  <input
+                    list="roster-names"
+                    value={replacements[name] || ''}
+                    onChange={(e) => handleReplacementChange(name, e.target.value)}
+                    placeholder="Pilih warga atau ketik nama tamu"
+                    className="w-full bg-gray-600 p-2 rounded mt-3 text-sm"
+                  />
+                )}
               </div>
             ))}
           </div>
+          <datalist id="roster-names">
+            {roster.map(name => <option key={name} value={name} />)}
+          </datalist>
         </div>
-
+        <div>
+          <h3 className="text-lg font-semibold mb-4 border-b border-gray-600 pb-2">Petugas Tambahan</h3>
+          {extraOfficers.length > 0 && (
+            <ul className="space-y-2 mb-3">
+              {extraOfficers.map(name => (
+                <li key={name} className="flex justify-between items-center bg-gray-700 p-2 rounded">
+                  <span>{name}</span>
+                  <button type="button" onClick={() => removeExtraOfficer(name)} className="text-red-400 hover:text-red-300 font-bold">✕</button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <input
+              list="roster-names"
+              value={newExtraOfficer}
+              onChange={(e) => setNewExtraOfficer(e.target.value)}
+              placeholder="Warga yang ikut ronda di luar jadwal"
+              className="flex-grow bg-gray-600 p-2 rounded"
+            />
+            <button type="button" onClick={addExtraOfficer} className="px-4 bg-blue-600 hover:bg-blue-500 rounded text-sm font-semibold">Tambah</button>
+          </div>
+        </div>
+        <IncidentListEditor incidents={incidents} onChange={setIncidents} />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
           <div>
-            <label htmlFor="notes" className="block text-sm font-medium text-gray-300 mb-2">Keterangan / Petugas Pengganti</label>
-            <textarea
-              id="notes"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              rows={4}
-              className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm p-3 focus:ring-teal-500 focus:border-teal-500 transition"
-              placeholder="Contoh: Bp Yayan digantikan oleh Bp Budi"
-            />
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-300 mb-2">Keterangan</label>
+            <textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={4} className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-teal-500" placeholder="Catatan lain di luar kejadian" />
           </div>
           <div>
             <label htmlFor="collection" className="block text-sm font-medium text-gray-300 mb-2">Hasil Prelek</label>
             <div className="relative">
                <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-400">Rp</span>
-               <input
-                type="text"
-                id="collection"
-                value={collection ? parseInt(collection, 10).toLocaleString('id-ID') : ''}
-                onChange={handleCollectionChange}
-                className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm p-3 pl-10 focus:ring-teal-500 focus:border-teal-500 transition"
-                placeholder="0"
-              />
+               <input type="text" id="collection" value={collection ? parseInt(collection, 10).toLocaleString('id-ID') : ''} onChange={handleCollectionChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 pl-10 focus:ring-teal-500" placeholder="0" />
             </div>
           </div>
         </div>
-
-        <div className="flex justify-end">
-          <button type="submit" className="bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 px-8 rounded-lg shadow-md hover:shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-teal-500">
-            Simpan Absensi
-          </button>
+        <div className="flex justify-end gap-4">
+          {onCancelEdit && <button type="button" onClick={onCancelEdit} className="py-3 px-6 bg-gray-600 hover:bg-gray-500 rounded-lg">Batal</button>}
+          <button type="submit" className="bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 px-8 rounded-lg shadow-md transition-transform transform hover:scale-105">{editingRecord ? 'Simpan Perubahan' : 'Simpan Absensi'}</button>
         </div>
       </form>
     </div>
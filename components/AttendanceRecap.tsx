@@ -1,73 +1,76 @@
-
 import React, { useState, useMemo, useRef } from 'react';
-import { AttendanceRecord, AttendanceStatus } from '../types';
+import { AttendanceRecord, NightException, Resident } from '../types';
+import { parseDateString } from '../utils/dates';
+import { buildImportPreview, csvRowsToRawRecords, ImportPreview, parseCsv } from '../utils/importRecords';
+import { getNightException, NIGHT_EXCEPTION_LABELS } from '../utils/nightExceptions';
+import ImportDialog from './ImportDialog';
+import { FOLLOW_UP_COLORS, getStatusColor } from './statusColors';
 
-interface AttendanceRecapProps {
+const AttendanceRecap: React.FC<{
   records: AttendanceRecord[];
-  setRecords: (records: AttendanceRecord[]) => void;
-}
-
-const AttendanceRecap: React.FC<AttendanceRecapProps> = ({ records, setRecords }) => {
+  residents: Resident[];
+  exceptions: NightException[];
+  onEdit?: (record: AttendanceRecord) => void;
+  onDelete?: (record: AttendanceRecord) => Promise<void>;
+  onImport?: (records: AttendanceRecord[]) => Promise<void>;
+}> = ({ records, residents, exceptions, onEdit, onDelete, onImport }) => {
   const [filterDate, setFilterDate] = useState('');
+  const [importPreview, setImportPreview] = useState<{ fileName: string; preview: ImportPreview } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const filteredRecords = useMemo(() => {
-    if (!filterDate) {
-      return [...records].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }
-    return records.filter(record => record.date === filterDate)
-                  .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [records, filterDate]);
-
-  const getStatusColor = (status: AttendanceStatus) => {
-    switch (status) {
-      case AttendanceStatus.Hadir:
-        return 'bg-green-500 text-green-900';
-      case AttendanceStatus.Ijin:
-        return 'bg-yellow-500 text-yellow-900';
-      case AttendanceStatus.Alpa:
-        return 'bg-red-500 text-red-900';
-      default:
-        return 'bg-gray-500 text-gray-900';
-    }
-  };
-  
-  const handleDownload = () => {
-    const dataStr = JSON.stringify(records, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
-    
-    const exportFileDefaultName = 'data_ronda.json';
-    
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
-  };
-  
   const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result;
-          if (typeof text === 'string') {
-            const parsedData = JSON.parse(text);
-            if(Array.isArray(parsedData)) {
-              // Basic validation can be added here
-              setRecords(parsedData);
-              alert('Data berhasil diimpor!');
-            } else {
-              alert('Format file JSON tidak valid.');
-            }
-          }
-        } catch (error) {
-          console.error("Error parsing JSON file", error);
-          alert('Gagal membaca file JSON. Pastikan formatnya benar.');
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      if (typeof text !== 'string') return;
+      try {
+        const rawEntries = file.name.toLowerCase().endsWith('.csv')
+          ? csvRowsToRawRecords(parseCsv(text), residents)
+          : JSON.parse(text);
+        if (!Array.isArray(rawEntries)) {
+          alert('File JSON harus berisi daftar absensi.');
+          return;
         }
-      };
-      reader.readAsText(file);
+        setImportPreview({ fileName: file.name, preview: buildImportPreview(rawEntries, records) });
+      } catch (error) {
+        console.error('Error parsing import file', error);
+        alert('Gagal membaca file. Pastikan formatnya JSON atau CSV yang benar.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImport = async (mode: 'merge' | 'replace', overwriteConflicts: boolean) => {
+    if (!importPreview || !onImport) return;
+    const { fresh, duplicates, conflicts } = importPreview.preview;
+    setImportPreview(null);
+    if (mode === 'replace') {
+      await onImport([...fresh, ...duplicates, ...conflicts.map(conflict => conflict.imported)]);
+      return;
     }
+    // Overwritten nights keep the existing id so edits stay traceable.
+    const replacements = new Map(overwriteConflicts ? conflicts.map(({ imported, existing }) => [existing.id, { ...imported, id: existing.id }]) : []);
+    await onImport([...records.map(record => replacements.get(record.id) ?? record), ...fresh]);
+  };
+
+  const filteredRecords = useMemo(() => {
+    const sortedRecords = [...records].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    if (!filterDate) return sortedRecords;
+    return sortedRecords.filter(record => record.date === filterDate);
+  }, [records, filterDate]);
+
+  // A record on a special night; a cancelled one only exists if it was filled in before the exception.
+  const renderExceptionBadge = (date: string) => {
+    const exception = getNightException(exceptions, date);
+    if (!exception) return null;
+    return (
+      <span className="inline-block mt-1 px-2 py-0.5 rounded text-xs bg-purple-800 text-purple-200">
+        {`${NIGHT_EXCEPTION_LABELS[exception.type]}${exception.reason ? ` (${exception.reason})` : ''}`}
+      </span>
+    );
   };
 
   return (
@@ -75,29 +78,18 @@ const AttendanceRecap: React.FC<AttendanceRecapProps> = ({ records, setRecords }
       <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
         <h2 className="text-2xl font-bold text-teal-400">Rekap Absensi</h2>
         <div className="flex items-center gap-2">
-            <input
-                type="date"
-                value={filterDate}
-                onChange={(e) => setFilterDate(e.target.value)}
-                className="bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-teal-500 focus:border-teal-500"
-            />
-            {filterDate && (
-                <button onClick={() => setFilterDate('')} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-md">
-                    Reset
-                </button>
+            {onImport && (
+              <>
+                <input type="file" accept=".json,.csv" onChange={handleUpload} className="hidden" ref={fileInputRef} />
+                <button onClick={() => fileInputRef.current?.click()} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md">Impor</button>
+              </>
             )}
+            <input type="date" value={filterDate} onChange={(e) => setFilterDate(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2"/>
+            {filterDate && <button onClick={() => setFilterDate('')} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-md">Reset</button>}
         </div>
       </div>
-      
-      <div className="flex justify-center sm:justify-end gap-4 mb-6">
-        <input type="file" accept=".json" onChange={handleUpload} className="hidden" ref={fileInputRef} />
-        <button onClick={() => fileInputRef.current?.click()} className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition">
-            Impor data.json
-        </button>
-        <button onClick={handleDownload} className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-4 rounded-lg transition">
-            Unduh data.json
-        </button>
-      </div>
+
+      {importPreview && <ImportDialog preview={importPreview.preview} fileName={importPreview.fileName} onImport={handleImport} onClose={() => setImportPreview(null)} />}
 
       <div className="space-y-6">
         {filteredRecords.length > 0 ? (
@@ -106,37 +98,46 @@ const AttendanceRecap: React.FC<AttendanceRecapProps> = ({ records, setRecords }
               <div className="flex justify-between items-start mb-4">
                 <div>
                   <h3 className="text-xl font-semibold text-gray-200">{record.day}</h3>
-                  <p className="text-sm text-gray-400">{new Date(record.date).toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+                  <p className="text-sm text-gray-400">{parseDateString(record.date).toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+                  {renderExceptionBadge(record.date)}
                 </div>
                 <div className="text-right">
                     <p className="text-sm text-gray-400">Hasil Prelek</p>
-                    <p className="text-lg font-bold text-teal-400">{record.collection.toLocaleString('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 })}</p>
+                    <p className="text-lg font-bold text-teal-400">{record.collection.toLocaleString('id-ID', { style: 'currency', currency: 'IDR' })}</p>
+                    {onEdit && onDelete && (
+                      <div className="flex justify-end gap-3 mt-2 text-sm">
+                          <button onClick={() => onEdit(record)} className="text-blue-400 hover:text-blue-300">Ubah</button>
+                          <button onClick={() => onDelete(record)} className="text-red-400 hover:text-red-300">Hapus</button>
+                      </div>
+                    )}
                 </div>
               </div>
-              
               <div className="mb-4">
                 <p className="text-sm font-medium text-gray-400">Petugas:</p>
                 <div className="flex flex-wrap gap-2 mt-2">
                     {record.officers.map(officer => (
                         <span key={officer.name} className={`px-3 py-1 text-sm font-semibold rounded-full ${getStatusColor(officer.status)}`}>
-                            {officer.name}
+                            {officer.nonScheduled ? `+ ${officer.name}` : officer.name}
+                            {officer.replacedBy && ` → ${officer.replacedBy}`}
                         </span>
                     ))}
                 </div>
               </div>
-
-              {record.notes && (
-                <div className="bg-gray-800 p-3 rounded">
-                  <p className="text-sm font-medium text-gray-400">Keterangan:</p>
-                  <p className="text-gray-300 text-sm mt-1 whitespace-pre-wrap">{record.notes}</p>
+              {record.incidents && record.incidents.length > 0 && (
+                <div className="mb-4">
+                  <p className="text-sm font-medium text-gray-400">Kejadian:</p>
+                  <ul className="mt-2 space-y-1 text-sm text-gray-300">
+                    {record.incidents.map(incident => (
+                      <li key={incident.id}>{`${incident.time} · ${incident.category}${incident.location ? ` (${incident.location})` : ''}: ${incident.description}`} <span className={`ml-1 px-2 rounded-full text-xs font-semibold ${FOLLOW_UP_COLORS[incident.followUp]}`}>{incident.followUp}</span></li>
+                    ))}
+                  </ul>
                 </div>
               )}
+              {record.notes && (<div className="bg-gray-800 p-3 rounded"><p className="text-sm font-medium text-gray-400">Keterangan:</p><p className="text-gray-300 text-sm mt-1 whitespace-pre-wrap">{record.notes}</p></div>)}
             </div>
           ))
         ) : (
-          <div className="text-center py-10">
-            <p className="text-gray-400">Tidak ada data untuk tanggal yang dipilih.</p>
-          </div>
+          <div className="text-center py-10"><p className="text-gray-400">Tidak ada data untuk tanggal yang dipilih.</p></div>
         )}
       </div>
     </div>
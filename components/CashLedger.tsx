@@ -0,0 +1,115 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceRecord, CashEntry, CashEntryType } from '../types';
+import { buildLedger, formatRupiah, LedgerPeriod } from '../utils/cashLedger';
+import { parseDateString } from '../utils/dates';
+import { getToday } from '../utils/shiftDate';
+
+const CashLedger: React.FC<{
+  records: AttendanceRecord[];
+  entries: CashEntry[];
+  onAddEntry?: (entry: CashEntry) => Promise<boolean>;
+  onDeleteEntry?: (entry: CashEntry) => Promise<void>;
+}> = ({ records, entries, onAddEntry, onDeleteEntry }) => {
+  const [period, setPeriod] = useState<LedgerPeriod>('bulanan');
+  const [entryDate, setEntryDate] = useState(getToday);
+  const [entryType, setEntryType] = useState<CashEntryType>(CashEntryType.Pengeluaran);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const ledger = useMemo(() => buildLedger(records, entries, period), [records, entries, period]);
+  const totalIncome = ledger.reduce((sum, row) => sum + row.income, 0);
+  const totalExpense = ledger.reduce((sum, row) => sum + row.expense, 0);
+
+  const sortedEntries = useMemo(() => [...entries].sort((a, b) => b.date.localeCompare(a.date)), [entries]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onAddEntry) return;
+    const parsedAmount = parseInt(amount, 10) || 0;
+    if (!description.trim() || parsedAmount <= 0) {
+      alert('Keterangan dan jumlah harus diisi.');
+      return;
+    }
+    const saved = await onAddEntry({
+      id: new Date().toISOString(),
+      date: entryDate,
+      type: entryType,
+      description: description.trim(),
+      amount: parsedAmount,
+    });
+    if (saved) {
+      setDescription('');
+      setAmount('');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-5xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Buku Kas Prelek</h2>
+        <select value={period} onChange={(e) => setPeriod(e.target.value as LedgerPeriod)} className="bg-gray-700 border-gray-600 rounded-md p-2">
+          <option value="harian">Harian</option>
+          <option value="mingguan">Mingguan</option>
+          <option value="bulanan">Bulanan</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+        <div className="bg-gray-700/50 p-4 rounded-lg"><p className="text-sm text-gray-400">Total Pemasukan</p><p className="text-xl font-bold text-green-400">{formatRupiah(totalIncome)}</p></div>
+        <div className="bg-gray-700/50 p-4 rounded-lg"><p className="text-sm text-gray-400">Total Pengeluaran</p><p className="text-xl font-bold text-red-400">{formatRupiah(totalExpense)}</p></div>
+        <div className="bg-gray-700/50 p-4 rounded-lg"><p className="text-sm text-gray-400">Saldo</p><p className="text-xl font-bold text-teal-400">{formatRupiah(totalIncome - totalExpense)}</p></div>
+      </div>
+
+      {ledger.length > 0 ? (
+        <div className="overflow-x-auto mb-10">
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-400 border-b border-gray-600">
+              <tr><th className="p-2">Periode</th><th className="p-2 text-right">Pemasukan</th><th className="p-2 text-right">Pengeluaran</th><th className="p-2 text-right">Saldo</th></tr>
+            </thead>
+            <tbody>
+              {ledger.map(row => (
+                <tr key={row.key} className="border-b border-gray-700">
+                  <td className="p-2 text-gray-200">{row.label}</td>
+                  <td className="p-2 text-right text-green-400">{formatRupiah(row.income)}</td>
+                  <td className="p-2 text-right text-red-400">{formatRupiah(row.expense)}</td>
+                  <td className="p-2 text-right font-semibold">{formatRupiah(row.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-10"><p className="text-gray-400">Belum ada transaksi kas.</p></div>
+      )}
+
+      <h3 className="text-lg font-semibold mb-4 border-b border-gray-600 pb-2">Catatan Kas Manual</h3>
+      {onAddEntry && <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-6">
+        <input type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} className="bg-gray-700 p-2 rounded" />
+        <select value={entryType} onChange={(e) => setEntryType(e.target.value as CashEntryType)} className="bg-gray-700 p-2 rounded">
+          {Object.values(CashEntryType).map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Contoh: Beli baterai senter" className="bg-gray-700 p-2 rounded md:col-span-2" />
+        <div className="flex gap-2">
+          <input value={amount ? parseInt(amount, 10).toLocaleString('id-ID') : ''} onChange={(e) => setAmount(e.target.value.replace(/[^0-9]/g, ''))} placeholder="Rp 0" className="bg-gray-700 p-2 rounded w-full" />
+          <button type="submit" className="px-4 bg-blue-600 hover:bg-blue-500 rounded text-sm font-semibold">Tambah</button>
+        </div>
+      </form>}
+      <ul className="space-y-2">
+        {sortedEntries.map(entry => (
+          <li key={entry.id} className="flex justify-between items-center bg-gray-700/50 p-3 rounded text-sm">
+            <div>
+              <p className="text-gray-200">{entry.description}</p>
+              <p className="text-gray-400">{parseDateString(entry.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className={entry.type === CashEntryType.Pemasukan ? 'text-green-400' : 'text-red-400'}>{`${entry.type === CashEntryType.Pemasukan ? '+' : '-'} ${formatRupiah(entry.amount)}`}</span>
+              {onDeleteEntry && <button onClick={() => onDeleteEntry(entry)} className="text-red-400 hover:text-red-300 font-bold">✕</button>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CashLedger;
@@ -0,0 +1,265 @@
+import React, { useState, useMemo } from 'react';
+import { CheckIn, CheckInLog, NightException, PosRonda, Resident, ScheduleVersion, Submission } from '../types';
+import { ChangeRefusedError, getCheckInLink } from '../services/access';
+import { getSubmissionWhatsAppUrl } from '../services/submissions';
+import { getCheckInId, getCurrentPosition, loadSentCheckIn, saveSentCheckIn, verifyAtPos } from '../utils/checkIn';
+import { SaveCancelledError } from '../utils/merge';
+import { resolveNightOfficers } from '../utils/nightExceptions';
+import { getOfficerName, loadOwnResidentId, saveOwnResidentId } from '../utils/residents';
+import { formatShiftTime, getShiftDate, getShiftDayLabel } from '../utils/shiftDate';
+import { formatLongDate } from '../utils/whatsapp';
+
+const DEFAULT_POS_RADIUS = 100;
+
+const CheckInPanel: React.FC<{
+  schedules: ScheduleVersion[];
+  exceptions: NightException[];
+  residents: Resident[];
+  checkInLog: CheckInLog;
+  blockId: string;
+  dataUrl: string;
+  showLink: boolean;
+  submission: Submission | null;
+  onCloseSubmission: () => void;
+  onSaveCheckIn?: (checkIn: CheckIn, summary: string) => Promise<void>;
+  onSavePos?: (pos: PosRonda | null) => Promise<void>;
+}> = ({ schedules, exceptions, residents, checkInLog, blockId, dataUrl, showLink, submission, onCloseSubmission, onSaveCheckIn, onSavePos }) => {
+  const shiftDate = getShiftDate();
+  const [residentId, setResidentId] = useState(loadOwnResidentId);
+  const [sentCheckIn, setSentCheckIn] = useState(loadSentCheckIn);
+  const [isLocating, setIsLocating] = useState(false);
+  const [radius, setRadius] = useState(String(checkInLog.pos?.radius ?? DEFAULT_POS_RADIUS));
+
+  // Tonight's officers first; anyone else can still check in as a volunteer.
+  const { scheduled, others } = useMemo(() => {
+    const onDuty = resolveNightOfficers(schedules, exceptions, shiftDate);
+    const active = residents.filter(resident => resident.active).sort((a, b) => a.name.localeCompare(b.name));
+    return {
+      scheduled: active.filter(resident => onDuty.includes(resident.id)),
+      others: active.filter(resident => !onDuty.includes(resident.id)),
+    };
+  }, [schedules, exceptions, residents, shiftDate]);
+
+  const tonight = checkInLog.checkIns
+    .filter(checkIn => checkIn.date === shiftDate)
+    .sort((a, b) => a.arrivedAt.localeCompare(b.arrivedAt));
+  // Without write access the check-in only counts once a coordinator accepts
+  // it, so until then the one sent from this phone is shown instead.
+  const loggedCheckIn = tonight.find(checkIn => checkIn.residentId === residentId);
+  const pendingCheckIn = sentCheckIn?.date === shiftDate && sentCheckIn.residentId === residentId ? sentCheckIn : undefined;
+  const ownCheckIn = pendingCheckIn?.departedAt && !loggedCheckIn?.departedAt ? pendingCheckIn : loggedCheckIn ?? pendingCheckIn;
+  const awaitsReview = !onSaveCheckIn && ownCheckIn === pendingCheckIn;
+  const incoming = submission?.kind === 'checkin' ? submission.checkIn : null;
+  const incomingResident = incoming && residents.find(resident => resident.id === incoming.residentId);
+
+  const selectResident = (id: string) => {
+    saveOwnResidentId(id);
+    setResidentId(id);
+  };
+
+  const saveOrSend = async (checkIn: CheckIn, summary: string) => {
+    if (onSaveCheckIn) {
+      await onSaveCheckIn(checkIn, summary);
+      return;
+    }
+    saveSentCheckIn(checkIn);
+    setSentCheckIn(checkIn);
+  };
+
+  const handleArrive = async () => {
+    if (!residentId) return;
+    setIsLocating(true);
+    try {
+      const distance = checkInLog.pos ? await verifyAtPos(checkInLog.pos) : undefined;
+      await saveOrSend({
+        id: getCheckInId(shiftDate, residentId),
+        date: shiftDate,
+        residentId,
+        arrivedAt: new Date().toISOString(),
+        ...(distance !== undefined && { distance }),
+      }, `Check-in ${getOfficerName(residents, residentId)} ${shiftDate}`);
+    } catch (error) {
+      if (!(error instanceof SaveCancelledError || error instanceof ChangeRefusedError)) alert(`Check-in gagal: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  // Leaving is not checked against the pos; the arrival already was.
+  const handleDepart = async () => {
+    if (!ownCheckIn) return;
+    await saveOrSend({ ...ownCheckIn, departedAt: new Date().toISOString() }, `Selesai ronda ${getOfficerName(residents, residentId)} ${shiftDate}`);
+  };
+
+  // A departure sent after the arrival was accepted only adds the departure time.
+  const acceptIncoming = async () => {
+    if (!onSaveCheckIn || !incoming) return;
+    const id = getCheckInId(incoming.date, incoming.residentId);
+    const existing = checkInLog.checkIns.find(checkIn => checkIn.id === id);
+    const received: CheckIn = {
+      id,
+      date: incoming.date,
+      residentId: incoming.residentId,
+      arrivedAt: incoming.arrivedAt,
+      ...(typeof incoming.distance === 'number' && { distance: incoming.distance }),
+    };
+    const departedAt = existing?.departedAt ?? incoming.departedAt;
+    try {
+      await onSaveCheckIn(
+        { ...(existing ?? received), ...(departedAt && { departedAt }) },
+        `Check-in ${getOfficerName(residents, incoming.residentId)} ${incoming.date} diterima dari kiriman`,
+      );
+      onCloseSubmission();
+    } catch (error) {
+      if (!(error instanceof SaveCancelledError || error instanceof ChangeRefusedError)) alert(`Gagal menyimpan check-in: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleSetPos = async () => {
+    if (!onSavePos) return;
+    const radiusMeters = parseInt(radius, 10);
+    if (!radiusMeters || radiusMeters < 10) {
+      alert('Radius minimal 10 meter.');
+      return;
+    }
+    setIsLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      await onSavePos({ latitude: position.coords.latitude, longitude: position.coords.longitude, radius: radiusMeters });
+    } catch (error) {
+      alert(`Gagal mengatur lokasi pos: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getCheckInLink(blockId, dataUrl));
+      alert('Tautan check-in disalin.');
+    } catch (error) {
+      alert('Gagal menyalin tautan. Salin secara manual.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-2xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold text-teal-400">Check-in Petugas</h2>
+        <p className="text-gray-400">{`${getShiftDayLabel(shiftDate)}, ${formatLongDate(shiftDate)}`}</p>
+      </div>
+
+      {incoming && (
+        <div className="bg-yellow-900/40 border border-yellow-600 p-4 rounded-lg space-y-3">
+          <h3 className="font-semibold text-yellow-300">Kiriman Check-in</h3>
+          <p>{`${getOfficerName(residents, incoming.residentId)}, ${formatLongDate(incoming.date)}: tiba ${formatShiftTime(incoming.arrivedAt)}${incoming.departedAt ? `, selesai ${formatShiftTime(incoming.departedAt)}` : ''}${incoming.distance !== undefined ? ` (${incoming.distance} m dari pos menurut ponsel pengirim, tidak diperiksa)` : ' (lokasi tidak dilaporkan)'}`}</p>
+          <p className="text-sm text-gray-400">
+            {incomingResident
+              ? `Terima hanya jika kiriman ini datang dari nomor WhatsApp ${incomingResident.name}${incomingResident.phone ? ` (${incomingResident.phone})` : ''}.`
+              : 'Nama pengirim tidak ada di data warga.'}
+          </p>
+          {!onSaveCheckIn && <p className="text-sm text-gray-400">Masuk sebagai koordinator atau admin untuk menerima kiriman ini.</p>}
+          <div className="flex gap-2">
+            {onSaveCheckIn && incomingResident && <button onClick={acceptIncoming} className="py-2 px-4 bg-teal-600 hover:bg-teal-700 rounded font-semibold">Terima</button>}
+            <button onClick={onCloseSubmission} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">{onSaveCheckIn ? 'Tolak' : 'Tutup'}</button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <select value={residentId} onChange={(e) => selectResident(e.target.value)} className="w-full bg-gray-700 border-gray-600 rounded-md p-3">
+          <option value="">Pilih nama Anda</option>
+          {scheduled.length > 0 && (
+            <optgroup label="Jadwal malam ini">
+              {scheduled.map(resident => <option key={resident.id} value={resident.id}>{resident.name}</option>)}
+            </optgroup>
+          )}
+          <optgroup label="Warga lain">
+            {others.map(resident => <option key={resident.id} value={resident.id}>{resident.name}</option>)}
+          </optgroup>
+        </select>
+
+        {!ownCheckIn ? (
+          <button onClick={handleArrive} disabled={!residentId || isLocating} className="w-full py-4 bg-teal-600 hover:bg-teal-700 rounded-lg text-lg font-bold disabled:opacity-50">
+            {isLocating ? 'Memeriksa lokasi...' : 'Saya Sudah di Pos'}
+          </button>
+        ) : (
+          <div className="bg-gray-700/50 p-4 rounded-lg space-y-3">
+            <p className="text-green-400">{`Tiba ${formatShiftTime(ownCheckIn.arrivedAt)}${ownCheckIn.distance !== undefined ? ` (${ownCheckIn.distance} m dari pos)` : ''}`}</p>
+            {ownCheckIn.departedAt
+              ? <p className="text-gray-300">{`Selesai ${formatShiftTime(ownCheckIn.departedAt)}. Terima kasih!`}</p>
+              : <button onClick={handleDepart} className="w-full py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-bold">Selesai Ronda</button>}
+            {awaitsReview && (
+              <>
+                <p className="text-sm text-yellow-300">Belum tercatat. Kirim ke koordinator lewat WhatsApp agar diterima.</p>
+                <a
+                  href={getSubmissionWhatsAppUrl({ kind: 'checkin', checkIn: ownCheckIn }, blockId, `${ownCheckIn.departedAt ? 'Selesai ronda' : 'Check-in'} ${getOfficerName(residents, ownCheckIn.residentId)}, ${formatLongDate(ownCheckIn.date)}. Mohon diterima:`)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-center w-full py-3 bg-green-600 hover:bg-green-700 rounded-lg font-bold"
+                >
+                  Kirim lewat WhatsApp
+                </a>
+              </>
+            )}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          {checkInLog.pos
+            ? `Check-in hanya diterima dalam radius ${checkInLog.pos.radius} m dari pos ronda.`
+            : 'Lokasi pos ronda belum diatur, jadi lokasi check-in tidak diperiksa.'}
+        </p>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Sudah Check-in</h3>
+        {tonight.length ? (
+          <ul className="space-y-1 text-sm">
+            {tonight.map(checkIn => (
+              <li key={checkIn.id} className="flex justify-between">
+                <span>{getOfficerName(residents, checkIn.residentId)}</span>
+                <span className="text-gray-400">{`${formatShiftTime(checkIn.arrivedAt)}${checkIn.departedAt ? `–${formatShiftTime(checkIn.departedAt)}` : ''}`}</span>
+              </li>
+            ))}
+          </ul>
+        ) : <p className="text-gray-400 text-sm">Belum ada petugas yang check-in malam ini.</p>}
+      </div>
+
+      {onSavePos && (
+        <div>
+          <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Lokasi Pos Ronda</h3>
+          <p className="text-sm text-gray-400 mb-3">
+            {checkInLog.pos
+              ? `${checkInLog.pos.latitude.toFixed(5)}, ${checkInLog.pos.longitude.toFixed(5)}, radius ${checkInLog.pos.radius} m`
+              : 'Belum diatur. Berdirilah di pos ronda lalu simpan lokasi saat ini.'}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Radius (m)
+              <input type="number" min={10} value={radius} onChange={(e) => setRadius(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white w-24" />
+            </label>
+            <button onClick={handleSetPos} disabled={isLocating} className="py-2 px-4 bg-teal-600 hover:bg-teal-700 rounded font-semibold disabled:opacity-50">Simpan Lokasi Saat Ini</button>
+            {checkInLog.pos && <button onClick={() => onSavePos(null)} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Hapus</button>}
+          </div>
+        </div>
+      )}
+
+      {showLink && (
+        <div>
+          <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Tautan Check-in</h3>
+          <p className="text-sm text-gray-400 mb-3">
+            {dataUrl
+              ? 'Bagikan ke petugas agar mereka bisa check-in dari ponsel masing-masing. Check-in mereka dikirim lewat WhatsApp dan tercatat setelah Anda terima.'
+              : 'Data belum bisa dibaca publik, jadi tautan ini hanya terbuka di perangkat yang sudah diatur. Gunakan repositori GitHub publik atau URL data publik.'}
+          </p>
+          <div className="flex gap-2">
+            <input type="text" readOnly value={getCheckInLink(blockId, dataUrl)} className="flex-grow bg-gray-700 border-gray-600 rounded-md p-2 text-sm" />
+            <button onClick={copyLink} className="py-2 px-4 bg-blue-600 hover:bg-blue-700 rounded font-semibold">Salin</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckInPanel;
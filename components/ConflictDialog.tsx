@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ConflictChoices, MergeConflict } from '../utils/merge';
+
+const ConflictDialog: React.FC<{
+  conflicts: MergeConflict<any>[];
+  describe: (item: any) => { title: string; details: string };
+  onResolve: (choices: ConflictChoices | null) => void;
+}> = ({ conflicts, describe, onResolve }) => {
+  const [choices, setChoices] = useState<ConflictChoices>(() => conflicts.reduce((acc, conflict) => {
+    acc[conflict.key] = 'local';
+    return acc;
+  }, {} as ConflictChoices));
+
+  const renderVersion = (item: any) => item === undefined
+    ? <p className="italic text-gray-500">(dihapus)</p>
+    : <p className="whitespace-pre-wrap">{describe(item).details}</p>;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2 text-yellow-400">Perubahan Bertabrakan</h2>
+        <p className="text-gray-400 mb-6">Data yang sama baru saja diubah dari perangkat lain. Pilih versi yang ingin disimpan, atau Batal untuk membuang perubahan Anda pada data ini.</p>
+        <div className="space-y-6">
+          {conflicts.map(conflict => (
+            <div key={conflict.key}>
+              <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2 mb-3">{describe(conflict.local ?? conflict.remote).title}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {(['local', 'remote'] as const).map(side => (
+                  <label key={side} className={`block p-3 rounded cursor-pointer border ${choices[conflict.key] === side ? 'border-teal-500 bg-gray-700' : 'border-gray-700 bg-gray-700/50'}`}>
+                    <div className="flex items-center gap-2 mb-2 font-semibold">
+                      <input type="radio" name={`conflict-${conflict.key}`} checked={choices[conflict.key] === side} onChange={() => setChoices({ ...choices, [conflict.key]: side })} />
+                      {side === 'local' ? 'Versi saya' : 'Versi terbaru'}
+                    </div>
+                    {renderVersion(conflict[side])}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={() => onResolve(null)} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Batal</button>
+          <button onClick={() => onResolve(choices)} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded">Simpan</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
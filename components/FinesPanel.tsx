@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AttendanceRecord, CashEntry, CashEntryType, Fine, FineBalance, FineRules, FineSettings, Resident } from '../types';
+import { formatRupiah } from '../utils/cashLedger';
+import { parseDateString } from '../utils/dates';
+import { computeFines, getFineBalances, getFinesTotal, getOutstandingAmount } from '../utils/fines';
+import { getToday } from '../utils/shiftDate';
+
+const FinesPanel: React.FC<{
+  records: AttendanceRecord[];
+  residents: Resident[];
+  fineSettings: FineSettings;
+  cashEntries: CashEntry[];
+  onSaveSettings?: (settings: FineSettings, summary: string) => Promise<void>;
+  onPay?: (entry: CashEntry) => Promise<void>;
+}> = ({ records, residents, fineSettings, cashEntries, onSaveSettings, onPay }) => {
+  const [rules, setRules] = useState<FineRules>(fineSettings.rules);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => setRules(fineSettings.rules), [fineSettings.rules]);
+
+  const fines = useMemo(() => computeFines(records, fineSettings.rules), [records, fineSettings.rules]);
+  const balances = useMemo(
+    () => getFineBalances(fines, cashEntries, fineSettings.waivedFineIds, residents),
+    [fines, cashEntries, fineSettings.waivedFineIds, residents],
+  );
+  const totalOutstanding = balances.reduce((sum, balance) => sum + getOutstandingAmount(balance), 0);
+  const rulesChanged = JSON.stringify(rules) !== JSON.stringify(fineSettings.rules);
+  const officerOptions = useMemo(() => residents.filter(resident => resident.active), [residents]);
+
+  const handleAmountChange = (key: 'amountPerAlpa' | 'escalateAfter' | 'escalatedAmount', value: string) => {
+    setRules({ ...rules, [key]: parseInt(value.replace(/[^0-9]/g, ''), 10) || 0 });
+  };
+
+  const toggleExempt = (officerKey: string) => {
+    const exemptOfficers = rules.exemptOfficers.includes(officerKey)
+      ? rules.exemptOfficers.filter(key => key !== officerKey)
+      : [...rules.exemptOfficers, officerKey];
+    setRules({ ...rules, exemptOfficers });
+  };
+
+  const handlePay = async (balance: FineBalance) => {
+    if (!onPay) return;
+    const amount = getOutstandingAmount(balance);
+    const creditUsed = getFinesTotal(balance.outstanding) - amount;
+    const creditNote = creditUsed ? ` (setelah dipotong kredit ${formatRupiah(creditUsed)})` : '';
+    if (!confirm(`Tandai denda ${balance.name} sebesar ${formatRupiah(amount)}${creditNote} sudah dibayar? Pembayaran dicatat sebagai pemasukan kas.`)) return;
+    await onPay({
+      id: new Date().toISOString(),
+      date: getToday(),
+      type: CashEntryType.Pemasukan,
+      description: `Denda ${balance.name} (${balance.outstanding.map(fine => fine.date).join(', ')})`,
+      amount,
+      officerKey: balance.officerKey,
+      fines: balance.outstanding.map(fine => ({ id: fine.id, amount: fine.amount })),
+      ...(creditUsed > 0 && { creditUsed }),
+    });
+  };
+
+  const handleWaive = async (fine: Fine) => {
+    if (!onSaveSettings || !confirm(`Bebaskan denda ${fine.name} tanggal ${fine.date}?`)) return;
+    await onSaveSettings(
+      { ...fineSettings, waivedFineIds: [...fineSettings.waivedFineIds, fine.id] },
+      `Denda ${fine.name} ${fine.date} dibebaskan`,
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto">
+      <h2 className="text-2xl font-bold text-teal-400 mb-6">Denda</h2>
+
+      <div className="bg-gray-700/50 p-4 rounded-lg mb-6">
+        <h3 className="font-semibold mb-3">Aturan</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">Denda per Alpa</span>
+            <input value={rules.amountPerAlpa ? rules.amountPerAlpa.toLocaleString('id-ID') : ''} onChange={(e) => handleAmountChange('amountPerAlpa', e.target.value)} disabled={!onSaveSettings} placeholder="Rp 0" className="bg-gray-700 p-2 rounded disabled:opacity-60" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">Naik setelah Alpa ke- (per bulan)</span>
+            <input type="number" min="0" value={rules.escalateAfter} onChange={(e) => handleAmountChange('escalateAfter', e.target.value)} disabled={!onSaveSettings} className="bg-gray-700 p-2 rounded disabled:opacity-60" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">Denda setelah naik</span>
+            <input value={rules.escalatedAmount ? rules.escalatedAmount.toLocaleString('id-ID') : ''} onChange={(e) => handleAmountChange('escalatedAmount', e.target.value)} disabled={!onSaveSettings || !rules.escalateAfter} placeholder="Rp 0" className="bg-gray-700 p-2 rounded disabled:opacity-60" />
+          </label>
+        </div>
+        {onSaveSettings && (
+          <>
+            <p className="text-sm text-gray-400 mt-4 mb-2">Dibebaskan dari denda:</p>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {officerOptions.map(resident => (
+                <label key={resident.id} className={`px-3 py-1 rounded-full cursor-pointer ${rules.exemptOfficers.includes(resident.id) ? 'bg-teal-600' : 'bg-gray-600'}`}>
+                  <input type="checkbox" checked={rules.exemptOfficers.includes(resident.id)} onChange={() => toggleExempt(resident.id)} className="hidden" />
+                  {resident.name}
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end mt-4">
+              <button onClick={() => onSaveSettings({ ...fineSettings, rules }, 'Aturan denda diperbarui')} disabled={!rulesChanged} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded font-semibold disabled:opacity-50">Simpan Aturan</button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {!fineSettings.rules.amountPerAlpa && !fineSettings.rules.escalatedAmount ? (
+        <p className="text-gray-400 text-center py-6">Belum ada aturan denda. Isi besar denda per Alpa untuk mulai menghitung.</p>
+      ) : (
+        <>
+          <p className="mb-4 text-gray-300">Total denda belum dibayar: <span className="font-bold text-red-400">{formatRupiah(totalOutstanding)}</span></p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-600">
+                  <th className="py-2">Nama</th>
+                  <th className="py-2 text-right">Total</th>
+                  <th className="py-2 text-right">Dibayar</th>
+                  <th className="py-2 text-right">Dibebaskan</th>
+                  <th className="py-2 text-right">Sisa</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {balances.map(balance => (
+                  <React.Fragment key={balance.officerKey}>
+                    <tr className="border-b border-gray-700">
+                      <td className="py-2">
+                        <button onClick={() => setExpanded(expanded === balance.officerKey ? null : balance.officerKey)} className="hover:underline text-left">{balance.name}</button>
+                        {balance.credit > 0 && <p className="text-xs text-gray-400">{`Kredit ${formatRupiah(balance.credit)} dari denda yang dikoreksi`}</p>}
+                      </td>
+                      <td className="py-2 text-right">{formatRupiah(balance.total)}</td>
+                      <td className="py-2 text-right text-green-400">{formatRupiah(balance.paid)}</td>
+                      <td className="py-2 text-right text-gray-400">{formatRupiah(balance.waived)}</td>
+                      <td className="py-2 text-right font-semibold text-red-400">{formatRupiah(getOutstandingAmount(balance))}</td>
+                      <td className="py-2 text-right">
+                        {onPay && balance.outstanding.length > 0 && <button onClick={() => handlePay(balance)} className="text-blue-400 hover:text-blue-300 whitespace-nowrap">Tandai Lunas</button>}
+                      </td>
+                    </tr>
+                    {expanded === balance.officerKey && balance.outstanding.map(fine => (
+                      <tr key={fine.id} className="text-gray-400">
+                        <td className="py-1 pl-4">{`${parseDateString(fine.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}${fine.escalated ? ' (naik)' : ''}`}</td>
+                        <td className="py-1 text-right">{formatRupiah(fine.amount)}</td>
+                        <td colSpan={3}></td>
+                        <td className="py-1 text-right">
+                          {onSaveSettings && <button onClick={() => handleWaive(fine)} className="text-yellow-400 hover:text-yellow-300">Bebaskan</button>}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FinesPanel;
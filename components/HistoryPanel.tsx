@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { FileCommit, GithubSettings, SyncedFile } from '../types';
+import { ChangeRefusedError } from '../services/access';
+import { blockPath } from '../services/blocks';
+import { getFile, listCommits } from '../services/github';
+import { SaveCancelledError } from '../utils/merge';
+import { showSpinner } from '../utils/spinner';
+
+const HISTORY_FILES: SyncedFile[] = ['data.json', 'schedule.json'];
+
+const HistoryPanel: React.FC<{
+  settings: GithubSettings | null;
+  folder: string;
+  onRestore?: (path: SyncedFile, content: any, commit: FileCommit) => Promise<void>;
+}> = ({ settings, folder, onRestore }) => {
+  const [path, setPath] = useState<SyncedFile>('data.json');
+  const [commits, setCommits] = useState<FileCommit[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!settings) return;
+    setIsLoading(true);
+    listCommits(settings, blockPath(folder, path))
+      .then(setCommits)
+      .catch(error => alert(`Gagal memuat riwayat: ${error instanceof Error ? error.message : String(error)}`))
+      .finally(() => setIsLoading(false));
+  }, [settings, folder, path]);
+
+  const handleRestore = async (commit: FileCommit) => {
+    if (!settings || !onRestore) return;
+    const when = new Date(commit.date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+    if (!confirm(`Kembalikan ${path} ke versi ${when}?\n\n"${commit.message.split('\n')[0]}"\n\nPerubahan setelahnya akan ditimpa.`)) return;
+    showSpinner(true);
+    try {
+      const file = await getFile(settings, blockPath(folder, path), commit.sha);
+      if (!file) throw new Error(`${path} tidak ada di versi tersebut.`);
+      showSpinner(false);
+      await onRestore(path, file.content, commit);
+    } catch (error) {
+      showSpinner(false);
+      if (error instanceof SaveCancelledError || error instanceof ChangeRefusedError) return;
+      alert(`Gagal mengembalikan versi: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Riwayat Perubahan</h2>
+        <select value={path} onChange={(e) => setPath(e.target.value as SyncedFile)} className="bg-gray-700 p-2 rounded">
+          {HISTORY_FILES.map(file => <option key={file} value={file}>{file}</option>)}
+        </select>
+      </div>
+      {!settings ? (
+        <p className="text-gray-400">Riwayat hanya tersedia untuk penyimpanan GitHub.</p>
+      ) : isLoading ? (
+        <p className="text-gray-400">Memuat riwayat...</p>
+      ) : (
+        <ul className="space-y-2">
+          {commits.map((commit, index) => (
+            <li key={commit.sha} className="flex justify-between items-start gap-4 bg-gray-700/50 p-3 rounded text-sm">
+              <div>
+                <p className="text-gray-200 whitespace-pre-wrap">{commit.message}</p>
+                <p className="text-gray-400">{`${new Date(commit.date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })} · ${commit.sha.slice(0, 7)}`}</p>
+              </div>
+              {onRestore && index > 0 && (
+                <button onClick={() => handleRestore(commit)} className="text-blue-400 hover:text-blue-300 whitespace-nowrap">Kembalikan</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { formatRupiah } from '../utils/cashLedger';
+import { ImportPreview } from '../utils/importRecords';
+
+const ImportDialog: React.FC<{
+  preview: ImportPreview;
+  fileName: string;
+  onImport: (mode: 'merge' | 'replace', overwriteConflicts: boolean) => Promise<void>;
+  onClose: () => void;
+}> = ({ preview, fileName, onImport, onClose }) => {
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const validCount = preview.fresh.length + preview.duplicates.length + preview.conflicts.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-40 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2 text-teal-400">Pratinjau Impor</h2>
+        <p className="text-gray-400 mb-6">{fileName}</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6 text-center">
+          <div className="bg-gray-700/50 p-3 rounded"><p className="text-2xl font-bold text-green-400">{preview.fresh.length}</p><p className="text-xs text-gray-400">Baru</p></div>
+          <div className="bg-gray-700/50 p-3 rounded"><p className="text-2xl font-bold text-gray-300">{preview.duplicates.length}</p><p className="text-xs text-gray-400">Duplikat</p></div>
+          <div className="bg-gray-700/50 p-3 rounded"><p className="text-2xl font-bold text-yellow-400">{preview.conflicts.length + preview.repeated.length}</p><p className="text-xs text-gray-400">Berbeda</p></div>
+          <div className="bg-gray-700/50 p-3 rounded"><p className="text-2xl font-bold text-red-400">{preview.invalid.length}</p><p className="text-xs text-gray-400">Tidak valid</p></div>
+        </div>
+
+        {preview.fresh.length > 0 && (
+          <div className="mb-4 text-sm">
+            <p className="font-semibold text-green-400 mb-1">Tanggal baru</p>
+            <p className="text-gray-300">{preview.fresh.map(record => record.date).sort().join(', ')}</p>
+          </div>
+        )}
+        {preview.conflicts.length > 0 && (
+          <div className="mb-4 text-sm">
+            <p className="font-semibold text-yellow-400 mb-1">Tanggal yang isinya berbeda dengan data sekarang</p>
+            <ul className="space-y-1 text-gray-300">
+              {preview.conflicts.map(({ imported, existing }) => (
+                <li key={imported.date}>{`${imported.date}: prelek ${formatRupiah(existing.collection)} → ${formatRupiah(imported.collection)}, ${imported.officers.length} petugas`}</li>
+              ))}
+            </ul>
+            <label className="flex items-center gap-2 mt-2">
+              <input type="checkbox" checked={overwriteConflicts} onChange={(e) => setOverwriteConflicts(e.target.checked)} />
+              Timpa tanggal yang berbeda dengan data dari file
+            </label>
+          </div>
+        )}
+        {preview.repeated.length > 0 && (
+          <div className="mb-4 text-sm">
+            <p className="font-semibold text-yellow-400 mb-1">Tanggal ganda dalam file (hanya entri pertama yang dipakai)</p>
+            <ul className="space-y-1 text-gray-300">
+              {preview.repeated.map(({ entry, date, firstEntry }) => <li key={entry}>{`Entri ${entry}: ${date} sudah ada di entri ${firstEntry}`}</li>)}
+            </ul>
+          </div>
+        )}
+        {preview.invalid.length > 0 && (
+          <div className="mb-4 text-sm">
+            <p className="font-semibold text-red-400 mb-1">Entri yang dilewati</p>
+            <ul className="space-y-1 text-gray-300">
+              {preview.invalid.map(({ entry, errors }) => <li key={entry}>{`Entri ${entry}: ${errors.join(' ')}`}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-4 mt-8">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Batal</button>
+          <button
+            onClick={() => confirm(`Semua data absensi akan diganti dengan ${validCount} entri dari file. Lanjutkan?`) && onImport('replace', true)}
+            disabled={!validCount}
+            className="py-2 px-4 bg-red-700 hover:bg-red-600 rounded disabled:opacity-50"
+          >
+            Ganti Semua
+          </button>
+          <button
+            onClick={() => onImport('merge', overwriteConflicts)}
+            disabled={!preview.fresh.length && !(overwriteConflicts && preview.conflicts.length)}
+            className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded disabled:opacity-50"
+          >
+            Gabungkan
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
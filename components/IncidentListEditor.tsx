@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { FollowUpStatus, Incident, IncidentCategory } from '../types';
+
+const IncidentListEditor: React.FC<{
+  incidents: Incident[];
+  onChange: (incidents: Incident[]) => void;
+}> = ({ incidents, onChange }) => {
+  const emptyDraft = { time: '', category: IncidentCategory.OrangMencurigakan, location: '', description: '' };
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const addIncident = () => {
+    if (!draft.time || !draft.description.trim()) {
+      alert('Jam dan uraian kejadian harus diisi.');
+      return;
+    }
+    const incident: Incident = { ...draft, id: new Date().toISOString(), location: draft.location.trim(), description: draft.description.trim(), followUp: FollowUpStatus.Baru };
+    onChange([...incidents, incident].sort((a, b) => a.time.localeCompare(b.time)));
+    setDraft(emptyDraft);
+  };
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg">
+      <h3 className="text-lg font-semibold mb-3">Kejadian Malam Ini</h3>
+      {incidents.length > 0 && (
+        <ul className="space-y-2 mb-4 text-sm">
+          {incidents.map(incident => (
+            <li key={incident.id} className="flex justify-between items-start gap-4 bg-gray-800 p-3 rounded">
+              <div>
+                <p className="font-semibold">{`${incident.time} · ${incident.category}${incident.location ? ` · ${incident.location}` : ''}`}</p>
+                <p className="text-gray-300">{incident.description}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select value={incident.followUp} onChange={(e) => onChange(incidents.map(other => other.id === incident.id ? { ...other, followUp: e.target.value as FollowUpStatus } : other))} className="bg-gray-700 p-1 rounded">
+                  {Object.values(FollowUpStatus).map(status => <option key={status} value={status}>{status}</option>)}
+                </select>
+                <button type="button" onClick={() => onChange(incidents.filter(other => other.id !== incident.id))} className="text-red-400 hover:text-red-300 font-bold">✕</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-sm">
+        <input type="time" value={draft.time} onChange={(e) => setDraft({ ...draft, time: e.target.value })} className="bg-gray-600 p-2 rounded" />
+        <select value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value as IncidentCategory })} className="bg-gray-600 p-2 rounded">
+          {Object.values(IncidentCategory).map(category => <option key={category} value={category}>{category}</option>)}
+        </select>
+        <input value={draft.location} onChange={(e) => setDraft({ ...draft, location: e.target.value })} placeholder="Lokasi / no. rumah" className="bg-gray-600 p-2 rounded md:col-span-2" />
+        <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Uraian kejadian" className="bg-gray-600 p-2 rounded md:col-span-3" />
+        <button type="button" onClick={addIncident} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded font-semibold">Tambah Kejadian</button>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentListEditor;
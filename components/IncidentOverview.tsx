@@ -0,0 +1,73 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceRecord, FollowUpStatus, Incident, IncidentCategory } from '../types';
+import { parseDateString } from '../utils/dates';
+import { FOLLOW_UP_COLORS } from './statusColors';
+
+const IncidentOverview: React.FC<{
+  records: AttendanceRecord[];
+  onUpdateFollowUp?: (record: AttendanceRecord, incident: Incident, followUp: FollowUpStatus) => Promise<void>;
+}> = ({ records, onUpdateFollowUp }) => {
+  const [month, setMonth] = useState('');
+  const [category, setCategory] = useState<IncidentCategory | ''>('');
+
+  const incidents = useMemo(() => records
+    .flatMap(record => (record.incidents ?? []).map(incident => ({ record, incident })))
+    .filter(({ record, incident }) => (!month || record.date.startsWith(month)) && (!category || incident.category === category))
+    .sort((a, b) => (b.record.date + b.incident.time).localeCompare(a.record.date + a.incident.time)),
+  [records, month, category]);
+
+  const countsByCategory = useMemo(() => incidents.reduce((acc, { incident }) => {
+    acc[incident.category] = (acc[incident.category] || 0) + 1;
+    return acc;
+  }, {} as { [key: string]: number }), [incidents]);
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Kejadian</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={category} onChange={(e) => setCategory(e.target.value as IncidentCategory | '')} className="bg-gray-700 p-2 rounded">
+            <option value="">Semua kategori</option>
+            {Object.values(IncidentCategory).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+          <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="bg-gray-700 p-2 rounded" />
+          {month && <button onClick={() => setMonth('')} className="bg-gray-600 hover:bg-gray-500 py-2 px-3 rounded-md">Semua bulan</button>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+        {Object.values(IncidentCategory).map(option => (
+          <div key={option} className="bg-gray-700/50 p-3 rounded text-center">
+            <p className="text-2xl font-bold text-gray-100">{countsByCategory[option] || 0}</p>
+            <p className="text-xs text-gray-400">{option}</p>
+          </div>
+        ))}
+      </div>
+
+      {incidents.length > 0 ? (
+        <ul className="space-y-2">
+          {incidents.map(({ record, incident }) => (
+            <li key={`${record.id}-${incident.id}`} className="flex flex-col sm:flex-row justify-between gap-2 bg-gray-700/50 p-3 rounded text-sm">
+              <div>
+                <p className="font-semibold text-gray-200">{`${incident.category}${incident.location ? ` · ${incident.location}` : ''}`}</p>
+                <p className="text-gray-300">{incident.description}</p>
+                <p className="text-gray-400">{`${parseDateString(record.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })} (${record.day}), jam ${incident.time}`}</p>
+              </div>
+              {onUpdateFollowUp ? (
+                <select value={incident.followUp} onChange={(e) => onUpdateFollowUp(record, incident, e.target.value as FollowUpStatus)} className="bg-gray-700 p-2 rounded self-start">
+                  {Object.values(FollowUpStatus).map(status => <option key={status} value={status}>{status}</option>)}
+                </select>
+              ) : (
+                <span className={`px-3 py-1 rounded-full text-xs font-semibold self-start ${FOLLOW_UP_COLORS[incident.followUp]}`}>{incident.followUp}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center py-10 text-gray-400">Tidak ada kejadian untuk filter ini.</p>
+      )}
+    </div>
+  );
+};
+
+export default IncidentOverview;
@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceRecord } from '../types';
+import { PERUMAHAN_NAME } from '../constants';
+import { formatRupiah } from '../utils/cashLedger';
+import { parseDateString } from '../utils/dates';
+import { buildReportRows, downloadFile, REPORT_HEADERS, reportRowToCells, toCsv, toSpreadsheetXml } from '../utils/report';
+import { getToday } from '../utils/shiftDate';
+import { formatLongDate } from '../utils/whatsapp';
+
+// Only the report sheet is printed, as a black and white A4 page.
+const PRINT_STYLES = `
+@media print {
+  @page { size: A4 portrait; margin: 15mm; }
+  body { background: white !important; }
+  body * { visibility: hidden; }
+  #print-report, #print-report * { visibility: visible; color: black !important; background: white !important; }
+  #print-report { position: absolute; left: 0; top: 0; width: 100%; padding: 0 !important; box-shadow: none !important; }
+}`;
+
+const MonthlyReport: React.FC<{ records: AttendanceRecord[]; blockName: string }> = ({ records, blockName }) => {
+  const [month, setMonth] = useState(() => getToday().slice(0, 7));
+
+  const rows = useMemo(() => buildReportRows(records, month), [records, month]);
+  const monthLabel = parseDateString(`${month}-01`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+  const totalCollection = rows.reduce((sum, row) => sum + row.collection, 0);
+  const countOf = (key: 'hadir' | 'ijin' | 'alpa' | 'diganti') => rows.reduce((sum, row) => sum + row[key].length, 0);
+
+  const tableRows = () => [
+    REPORT_HEADERS,
+    ...rows.map(reportRowToCells),
+    ['Total', '', countOf('hadir'), countOf('ijin'), countOf('alpa'), countOf('diganti'), '', totalCollection, ''],
+  ];
+
+  // Named after the block so reports of several blocks do not overwrite each other.
+  const fileName = `rekap_ronda_${blockName.toLowerCase().replace(/\s+/g, '_')}_${month}`;
+
+  const handleCsvDownload = () => {
+    // The BOM makes Excel read the file as UTF-8 instead of the system code page.
+    downloadFile(`\uFEFF${toCsv(tableRows())}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleExcelDownload = () => {
+    downloadFile(toSpreadsheetXml(`Rekap ${month}`, tableRows()), `${fileName}.xls`, 'application/vnd.ms-excel');
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto">
+      <style>{PRINT_STYLES}</style>
+      <div className="bg-gray-800 p-6 rounded-xl shadow-lg flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-teal-400">Laporan Bulanan</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2" />
+          <button onClick={handleCsvDownload} disabled={!rows.length} className="bg-blue-600 hover:bg-blue-700 font-semibold py-2 px-4 rounded-lg disabled:opacity-50">CSV</button>
+          <button onClick={handleExcelDownload} disabled={!rows.length} className="bg-green-600 hover:bg-green-700 font-semibold py-2 px-4 rounded-lg disabled:opacity-50">Excel</button>
+          <button onClick={() => window.print()} disabled={!rows.length} className="bg-purple-600 hover:bg-purple-700 font-semibold py-2 px-4 rounded-lg disabled:opacity-50">Cetak / PDF</button>
+        </div>
+      </div>
+
+      <div id="print-report" className="bg-white text-black p-8 rounded-xl shadow-lg text-xs">
+        <div className="text-center mb-6">
+          <h3 className="text-lg font-bold uppercase">Rekap Absensi Ronda</h3>
+          <p className="font-semibold">{`${blockName} ${PERUMAHAN_NAME}`}</p>
+          <p>{`Bulan ${monthLabel}`}</p>
+        </div>
+
+        {rows.length > 0 ? (
+          <>
+            <table className="w-full border-collapse mb-6">
+              <thead>
+                <tr>{['Tanggal', 'Hari', 'Hadir', 'Ijin', 'Alpa', 'Diganti', 'Prelek'].map(header => <th key={header} className="border border-black p-1 text-left">{header}</th>)}</tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.date} className="align-top">
+                    <td className="border border-black p-1 whitespace-nowrap">{row.date}</td>
+                    <td className="border border-black p-1">{row.day}</td>
+                    <td className="border border-black p-1">{[...row.hadir, ...row.tambahan.map(name => `+ ${name}`)].join(', ')}</td>
+                    <td className="border border-black p-1">{row.ijin.join(', ')}</td>
+                    <td className="border border-black p-1">{row.alpa.join(', ')}</td>
+                    <td className="border border-black p-1">{row.diganti.join(', ')}</td>
+                    <td className="border border-black p-1 text-right whitespace-nowrap">{formatRupiah(row.collection)}</td>
+                  </tr>
+                ))}
+                <tr className="font-bold">
+                  <td className="border border-black p-1" colSpan={2}>Total</td>
+                  <td className="border border-black p-1">{`${countOf('hadir')} hadir`}</td>
+                  <td className="border border-black p-1">{`${countOf('ijin')} ijin`}</td>
+                  <td className="border border-black p-1">{`${countOf('alpa')} alpa`}</td>
+                  <td className="border border-black p-1">{`${countOf('diganti')} diganti`}</td>
+                  <td className="border border-black p-1 text-right whitespace-nowrap">{formatRupiah(totalCollection)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            {rows.some(row => row.notes) && (
+              <div className="mb-6">
+                <p className="font-bold mb-1">Keterangan</p>
+                <ul className="list-disc pl-5">
+                  {rows.filter(row => row.notes).map(row => <li key={row.date}>{`${row.date}: ${row.notes}`}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end mt-10">
+              <div className="text-center w-56">
+                <p>{`${PERUMAHAN_NAME}, ${formatLongDate(getToday())}`}</p>
+                <p className="mb-16">Ketua RT</p>
+                <p className="border-t border-black pt-1">( ............................ )</p>
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="text-center py-10">Tidak ada data untuk bulan ini.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MonthlyReport;
@@ -0,0 +1,146 @@
+import React, { useState, useMemo } from 'react';
+import { NightException, NightExceptionType, Resident, ScheduleVersion } from '../types';
+import { NIGHT_EXCEPTION_LABELS } from '../utils/nightExceptions';
+import { getOfficerName } from '../utils/residents';
+import { resolveOfficers } from '../utils/schedule';
+import { getShiftDate, getShiftDayLabel } from '../utils/shiftDate';
+
+const NightExceptionsPanel: React.FC<{
+  schedules: ScheduleVersion[];
+  residents: Resident[];
+  exceptions: NightException[];
+  onSave?: (exceptions: NightException[], summary: string) => Promise<void>;
+}> = ({ schedules, residents, exceptions, onSave }) => {
+  const today = getShiftDate();
+  const [date, setDate] = useState(today);
+  const [type, setType] = useState<NightExceptionType>('batal');
+  const [officers, setOfficers] = useState<string[]>([]);
+  const [newOfficerId, setNewOfficerId] = useState('');
+  const [reason, setReason] = useState('');
+
+  const nightLabel = (dateString: string) => `${getShiftDayLabel(dateString)} ${dateString}`;
+  const officerNames = (ids: string[]) => ids.map(id => getOfficerName(residents, id)).join(', ');
+  const scheduled = resolveOfficers(schedules, date);
+
+  const { upcoming, past } = useMemo(() => {
+    const sorted = [...exceptions].sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      upcoming: sorted.filter(exception => exception.date >= today),
+      past: sorted.filter(exception => exception.date < today).reverse(),
+    };
+  }, [exceptions, today]);
+
+  const addOfficer = () => {
+    if (!newOfficerId) return;
+    setOfficers([...officers, newOfficerId]);
+    setNewOfficerId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSave) return;
+    if (type !== 'batal' && !officers.length) {
+      alert('Pilih minimal satu petugas.');
+      return;
+    }
+    const existing = exceptions.find(exception => exception.date === date);
+    if (existing && !confirm(`${nightLabel(date)} sudah ditandai "${NIGHT_EXCEPTION_LABELS[existing.type]}". Ganti?`)) return;
+    const exception: NightException = {
+      id: existing?.id ?? new Date().toISOString(),
+      date,
+      type,
+      officers: type === 'batal' ? [] : officers,
+      reason: reason.trim(),
+    };
+    await onSave([...exceptions.filter(other => other.date !== date), exception], `${NIGHT_EXCEPTION_LABELS[type]} ${nightLabel(date)}`);
+    setOfficers([]);
+    setReason('');
+  };
+
+  const removeException = async (exception: NightException) => {
+    if (!onSave || !confirm(`Hapus pengecualian ${nightLabel(exception.date)}? Malam itu kembali mengikuti jadwal biasa.`)) return;
+    await onSave(exceptions.filter(other => other.id !== exception.id), `Pengecualian ${nightLabel(exception.date)} dihapus`);
+  };
+
+  const renderException = (exception: NightException) => (
+    <li key={exception.id} className="bg-gray-700/50 p-3 rounded flex flex-col sm:flex-row justify-between gap-2 text-sm">
+      <div>
+        <p className="text-gray-200">{`${nightLabel(exception.date)}: ${NIGHT_EXCEPTION_LABELS[exception.type]}`}</p>
+        {exception.officers.length > 0 && <p className="text-gray-400">{`Petugas: ${officerNames(exception.officers)}`}</p>}
+        {exception.reason && <p className="text-gray-400">{`Alasan: ${exception.reason}`}</p>}
+      </div>
+      {onSave && <button onClick={() => removeException(exception)} className="text-red-400 hover:text-red-300 self-start">Hapus</button>}
+    </li>
+  );
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold text-teal-400">Malam Khusus</h2>
+        <p className="text-gray-400 text-sm">Malam tanpa ronda, dengan petugas tambahan, atau dengan petugas pengganti. Malam yang ditiadakan tidak dihitung sebagai Alpa atau belum diisi.</p>
+      </div>
+
+      {onSave && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+              Malam
+              <input type="date" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white" />
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+              Jenis
+              <select value={type} onChange={(e) => setType(e.target.value as NightExceptionType)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white">
+                {Object.entries(NIGHT_EXCEPTION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-sm text-gray-400">{`Jadwal ${nightLabel(date)}: ${scheduled.length ? officerNames(scheduled) : '(kosong)'}`}</p>
+
+          {type !== 'batal' && (
+            <div>
+              <p className="text-sm text-gray-400 mb-2">{type === 'tambah' ? 'Petugas tambahan' : 'Petugas pengganti untuk malam ini saja'}</p>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {officers.map(id => (
+                  <span key={id} className="flex items-center gap-2 bg-gray-700 px-3 py-1 rounded-full text-sm">
+                    {getOfficerName(residents, id)}
+                    <button type="button" onClick={() => setOfficers(officers.filter(other => other !== id))} className="text-red-400 hover:text-red-300 font-bold">✕</button>
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <select value={newOfficerId} onChange={(e) => setNewOfficerId(e.target.value)} className="flex-grow bg-gray-700 border-gray-600 rounded-md p-2">
+                  <option value="">Pilih warga...</option>
+                  {residents.filter(resident => resident.active && !officers.includes(resident.id) && (type === 'ganti' || !scheduled.includes(resident.id))).map(resident => (
+                    <option key={resident.id} value={resident.id}>{resident.houseNumber ? `${resident.name} (${resident.houseNumber})` : resident.name}</option>
+                  ))}
+                </select>
+                <button type="button" onClick={addOfficer} className="px-4 bg-blue-600 hover:bg-blue-500 rounded text-sm font-semibold">Tambah</button>
+              </div>
+            </div>
+          )}
+
+          <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Alasan, mis. Malam takbiran" className="w-full bg-gray-700 border-gray-600 rounded-md p-2" />
+          <div className="flex justify-end">
+            <button type="submit" className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded font-semibold">Simpan</button>
+          </div>
+        </form>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Akan Datang</h3>
+        {upcoming.length
+          ? <ul className="space-y-2">{upcoming.map(renderException)}</ul>
+          : <p className="text-gray-400 text-sm">Belum ada malam khusus.</p>}
+      </div>
+
+      {past.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Sudah Lewat</h3>
+          <ul className="space-y-2">{past.map(renderException)}</ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NightExceptionsPanel;
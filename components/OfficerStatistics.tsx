@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AttendanceRecord, OfficerStats, Resident } from '../types';
+import { toDateString } from '../utils/dates';
+import { computeOfficerStats } from '../utils/statistics';
+
+const STATS_COLUMNS: { key: keyof OfficerStats; label: string }[] = [
+  { key: 'name', label: 'Nama' },
+  { key: 'hadir', label: 'Hadir' },
+  { key: 'ijin', label: 'Ijin' },
+  { key: 'alpa', label: 'Alpa' },
+  { key: 'diganti', label: 'Diganti' },
+  { key: 'extra', label: 'Tambahan' },
+  { key: 'percentage', label: 'Kehadiran' },
+  { key: 'longestAlpaStreak', label: 'Alpa Beruntun' },
+];
+
+const OfficerStatistics: React.FC<{ records: AttendanceRecord[]; residents: Resident[] }> = ({ records, residents }) => {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [sortKey, setSortKey] = useState<keyof OfficerStats>('percentage');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [alpaThreshold, setAlpaThreshold] = useState(() => parseInt(localStorage.getItem('alpaThreshold') || '3', 10));
+
+  useEffect(() => {
+    localStorage.setItem('alpaThreshold', String(alpaThreshold));
+  }, [alpaThreshold]);
+
+  const handleMonthChange = (month: string) => {
+    if (!month) return;
+    const [year, monthIndex] = month.split('-').map(Number);
+    setFromDate(`${month}-01`);
+    setToDate(toDateString(new Date(year, monthIndex, 0)));
+  };
+
+  const handleSort = (key: keyof OfficerStats) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'name');
+    }
+  };
+
+  const stats = useMemo(() => {
+    const filteredRecords = records.filter(record => (!fromDate || record.date >= fromDate) && (!toDate || record.date <= toDate));
+    return computeOfficerStats(filteredRecords, residents).sort((a, b) => {
+      const aValue = a[sortKey];
+      const bValue = b[sortKey];
+      const result = typeof aValue === 'string' ? aValue.localeCompare(bValue as string) : (aValue as number) - (bValue as number);
+      return sortAscending ? result : -result;
+    });
+  }, [records, residents, fromDate, toDate, sortKey, sortAscending]);
+
+  const flaggedCount = stats.filter(entry => entry.alpa >= alpaThreshold).length;
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-5xl mx-auto">
+      <h2 className="text-2xl font-bold text-teal-400 mb-6">Statistik Petugas</h2>
+      <div className="flex flex-wrap items-end gap-4 mb-6 text-sm">
+        <label className="flex flex-col gap-1 text-gray-400">
+          Bulan
+          <input type="month" value={fromDate.slice(0, 7)} onChange={(e) => handleMonthChange(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white" />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Dari
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white" />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Sampai
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white" />
+        </label>
+        {(fromDate || toDate) && <button onClick={() => { setFromDate(''); setToDate(''); }} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-md">Reset</button>}
+        <label className="flex flex-col gap-1 text-gray-400 ml-auto">
+          Batas Alpa
+          <input type="number" min={1} value={alpaThreshold} onChange={(e) => setAlpaThreshold(Math.max(1, parseInt(e.target.value, 10) || 1))} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white w-24" />
+        </label>
+      </div>
+
+      {flaggedCount > 0 && (
+        <p className="bg-red-900/50 text-red-300 p-3 rounded mb-4 text-sm">{`${flaggedCount} warga mencapai ${alpaThreshold} kali Alpa atau lebih dan perlu ditindaklanjuti.`}</p>
+      )}
+
+      {stats.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-400 border-b border-gray-600">
+              <tr>
+                {STATS_COLUMNS.map(column => (
+                  <th key={column.key} onClick={() => handleSort(column.key)} className="p-2 cursor-pointer select-none whitespace-nowrap">
+                    {column.label}{sortKey === column.key && (sortAscending ? ' ▲' : ' ▼')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(entry => (
+                <tr key={entry.id} className={`border-b border-gray-700 ${entry.alpa >= alpaThreshold ? 'bg-red-900/30' : ''}`}>
+                  <td className="p-2 font-medium text-gray-200">{entry.alpa >= alpaThreshold ? `⚠ ${entry.name}` : entry.name}</td>
+                  <td className="p-2 text-green-400">{entry.hadir}</td>
+                  <td className="p-2 text-yellow-400">{entry.ijin}</td>
+                  <td className="p-2 text-red-400">{entry.alpa}</td>
+                  <td className="p-2 text-blue-400">{entry.diganti}</td>
+                  <td className="p-2">{entry.extra}</td>
+                  <td className="p-2 font-semibold">{entry.total ? `${entry.percentage}%` : '-'}</td>
+                  <td className="p-2">{entry.longestAlpaStreak}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-10"><p className="text-gray-400">Tidak ada data untuk periode yang dipilih.</p></div>
+      )}
+    </div>
+  );
+};
+
+export default OfficerStatistics;
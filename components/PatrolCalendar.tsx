@@ -0,0 +1,111 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceRecord, AttendanceStatus, NightException, ScheduleVersion } from '../types';
+import { NAMA_HARI } from '../constants';
+import { parseDateString, toDateString } from '../utils/dates';
+import { getNightException, resolveNightOfficers } from '../utils/nightExceptions';
+import { getShiftDate, getToday } from '../utils/shiftDate';
+import { getStatusColor } from './statusColors';
+
+const PatrolCalendar: React.FC<{
+  records: AttendanceRecord[];
+  schedules: ScheduleVersion[];
+  exceptions: NightException[];
+  onOpenRecord?: (record: AttendanceRecord) => void;
+  onBackfill?: (date: string) => void;
+}> = ({ records, schedules, exceptions, onOpenRecord, onBackfill }) => {
+  const [month, setMonth] = useState(() => getToday().slice(0, 7));
+  // The night still being patrolled; it only counts as missing once its cutoff passes.
+  const currentShift = getShiftDate();
+  const monthStart = parseDateString(`${month}-01`);
+  const monthLabel = monthStart.toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+
+  const recordsByDate = useMemo(() => new Map(records.map(record => [record.date, record])), [records]);
+  // Nights before the first ever record predate the app, so they are not
+  // flagged as forgotten.
+  const firstRecordDate = useMemo(() => records.reduce((first, record) => record.date < first ? record.date : first, currentShift), [records, currentShift]);
+
+  const days = useMemo(() => {
+    const daysInMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+    return Array.from({ length: daysInMonth }, (_, index) => {
+      const date = toDateString(new Date(monthStart.getFullYear(), monthStart.getMonth(), index + 1));
+      const record = recordsByDate.get(date);
+      const counts = { hadir: 0, ijin: 0, alpa: 0 };
+      record?.officers.forEach(officer => {
+        if (officer.status === AttendanceStatus.Ijin) counts.ijin++;
+        else if (officer.status === AttendanceStatus.Alpa) counts.alpa++;
+        else counts.hadir++;
+      });
+      const exception = getNightException(exceptions, date);
+      // Tonight's patrol is only reported the next morning.
+      const missing = !record && date >= firstRecordDate && date < currentShift && resolveNightOfficers(schedules, exceptions, date).length > 0;
+      return { date, record, counts, missing, exception };
+    });
+  }, [month, recordsByDate, firstRecordDate, schedules, exceptions, currentShift]);
+
+  const shiftMonth = (delta: number) => {
+    setMonth(toDateString(new Date(monthStart.getFullYear(), monthStart.getMonth() + delta, 1)).slice(0, 7));
+  };
+
+  const getDayColor = ({ record, counts, missing, exception }: (typeof days)[number]) => {
+    if (missing) return 'bg-red-900/60 border-red-500 border-dashed';
+    if (exception?.type === 'batal') return 'bg-gray-900 border-gray-600';
+    if (!record) return 'bg-gray-700/30 border-gray-700';
+    if (counts.alpa > 0) return 'bg-red-500/30 border-red-500';
+    if (counts.ijin > 0) return 'bg-yellow-500/30 border-yellow-500';
+    return 'bg-green-500/30 border-green-500';
+  };
+
+  const missingCount = days.filter(day => day.missing).length;
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto mt-12">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Kalender Ronda</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => shiftMonth(-1)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-md">‹</button>
+          <span className="w-40 text-center font-semibold">{monthLabel}</span>
+          <button onClick={() => shiftMonth(1)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-md">›</button>
+        </div>
+      </div>
+      <p className={`text-sm mb-4 ${missingCount ? 'text-red-400' : 'text-gray-400'}`}>
+        {missingCount ? `${missingCount} malam belum ada absensinya.${onBackfill ? ' Klik tanggal untuk mengisinya.' : ''}` : 'Semua malam di bulan ini sudah tercatat.'}
+      </p>
+      <div className="grid grid-cols-7 gap-1 sm:gap-2 text-center">
+        {Object.values(NAMA_HARI).map(name => <div key={name} className="text-xs text-gray-400 font-semibold py-1">{name.slice(0, 3)}</div>)}
+        {Array.from({ length: monthStart.getDay() }, (_, index) => <div key={`blank-${index}`} />)}
+        {days.map(day => {
+          const clickable = day.record ? !!onOpenRecord : !!onBackfill && day.date < currentShift;
+          return (
+            <button
+              key={day.date}
+              disabled={!clickable}
+              onClick={() => day.record ? onOpenRecord?.(day.record) : onBackfill?.(day.date)}
+              title={day.exception?.reason || (day.record ? day.record.day : day.missing ? 'Belum diisi' : '')}
+              className={`min-h-[4.5rem] p-1 rounded-md border text-left ${getDayColor(day)} ${clickable ? 'hover:ring-2 hover:ring-teal-400' : 'opacity-50 cursor-default'}`}
+            >
+              <span className="text-sm font-semibold">{Number(day.date.slice(8))}</span>
+              {day.record && (
+                <div className="flex flex-wrap gap-0.5 mt-1 text-[10px] font-bold">
+                  {day.counts.hadir > 0 && <span className={`px-1 rounded ${getStatusColor(AttendanceStatus.Hadir)}`}>{day.counts.hadir}</span>}
+                  {day.counts.ijin > 0 && <span className={`px-1 rounded ${getStatusColor(AttendanceStatus.Ijin)}`}>{day.counts.ijin}</span>}
+                  {day.counts.alpa > 0 && <span className={`px-1 rounded ${getStatusColor(AttendanceStatus.Alpa)}`}>{day.counts.alpa}</span>}
+                </div>
+              )}
+              {day.missing && <span className="block mt-1 text-[10px] text-red-300">Belum diisi</span>}
+              {day.exception && <span className="block mt-1 text-[10px] text-purple-300">{day.exception.type === 'batal' ? 'Libur' : 'Khusus'}</span>}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-400">
+        <span><span className={`px-1 rounded ${getStatusColor(AttendanceStatus.Hadir)}`}>n</span> Hadir/Diganti</span>
+        <span><span className={`px-1 rounded ${getStatusColor(AttendanceStatus.Ijin)}`}>n</span> Ijin</span>
+        <span><span className={`px-1 rounded ${getStatusColor(AttendanceStatus.Alpa)}`}>n</span> Alpa</span>
+        <span className="text-red-300">Garis putus-putus: belum diisi</span>
+        <span className="text-purple-300">Libur/Khusus: lihat Malam Khusus</span>
+      </div>
+    </div>
+  );
+};
+
+export default PatrolCalendar;
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { AccessSettings, Role } from '../types';
+import { hashPin } from '../services/access';
+import { loadActorName } from '../services/audit';
+
+const PinDialog: React.FC<{
+  accessSettings: AccessSettings;
+  roster: string[];
+  onUnlock: (role: Role, actorName: string) => void;
+  onClose: () => void;
+}> = ({ accessSettings, roster, onUnlock, onClose }) => {
+  const [pin, setPin] = useState('');
+  const [name, setName] = useState(loadActorName);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      alert('Isi nama Anda agar perubahan tercatat atas nama Anda.');
+      return;
+    }
+    const pinHash = await hashPin(pin);
+    if (pinHash === accessSettings.adminPinHash) onUnlock('admin', name.trim());
+    else if (pinHash === accessSettings.coordinatorPinHash) onUnlock('coordinator', name.trim());
+    else {
+      alert('PIN salah.');
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-sm">
+        <h2 className="text-2xl font-bold mb-4 text-teal-400">Masuk</h2>
+        <p className="text-gray-400 mb-4">Masukkan nama Anda dan PIN koordinator atau admin.</p>
+        <input list="pin-roster-names" value={name} onChange={(e) => setName(e.target.value)} placeholder="Nama Anda" className="w-full bg-gray-700 p-3 rounded mb-3" />
+        <datalist id="pin-roster-names">{roster.map(rosterName => <option key={rosterName} value={rosterName} />)}</datalist>
+        <input type="password" inputMode="numeric" autoFocus value={pin} onChange={(e) => setPin(e.target.value)} className="w-full bg-gray-700 p-3 rounded text-center text-2xl tracking-widest" />
+        <div className="flex justify-end gap-4 mt-8">
+          <button type="button" onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Batal</button>
+          <button type="submit" className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded">Masuk</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PinDialog;
@@ -0,0 +1,59 @@
+import React, { useState, useMemo } from 'react';
+import { ReminderSettings, Resident } from '../types';
+
+const ReminderSettingsModal: React.FC<{
+  settings: ReminderSettings;
+  residents: Resident[];
+  onSave: (settings: ReminderSettings) => void;
+  onClose: () => void;
+}> = ({ settings, residents, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const activeResidents = useMemo(() => residents.filter(resident => resident.active), [residents]);
+
+  const handleSave = async () => {
+    if (draft.enabled || draft.morningNudge) {
+      if (!('Notification' in window) || !('serviceWorker' in navigator)) {
+        alert('Browser ini tidak mendukung notifikasi.');
+        return;
+      }
+      if (await Notification.requestPermission() !== 'granted') {
+        alert('Izin notifikasi ditolak. Aktifkan notifikasi untuk situs ini di pengaturan browser.');
+        return;
+      }
+    }
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-lg">
+        <h2 className="text-2xl font-bold mb-4 text-teal-400">Pengingat</h2>
+        <p className="text-gray-400 mb-6 text-sm">Notifikasi muncul selama aplikasi terbuka. Jika aplikasi dipasang (Tambahkan ke Layar Utama), browser yang mendukung juga menampilkannya saat aplikasi tertutup.</p>
+        <div className="space-y-4">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })} />
+            Ingatkan petugas ronda malam ini
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <input type="time" value={draft.eveningTime} onChange={(e) => setDraft({ ...draft, eveningTime: e.target.value })} disabled={!draft.enabled} className="bg-gray-700 p-3 rounded disabled:opacity-50" />
+            <select value={draft.residentId} onChange={(e) => setDraft({ ...draft, residentId: e.target.value })} disabled={!draft.enabled} className="bg-gray-700 p-3 rounded disabled:opacity-50">
+              <option value="">Setiap malam</option>
+              {activeResidents.map(resident => <option key={resident.id} value={resident.id}>{`Hanya jadwal ${resident.name}`}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.morningNudge} onChange={(e) => setDraft({ ...draft, morningNudge: e.target.checked })} />
+            Ingatkan koordinator jika absensi semalam belum diisi
+          </label>
+          <input type="time" value={draft.morningTime} onChange={(e) => setDraft({ ...draft, morningTime: e.target.value })} disabled={!draft.morningNudge} className="bg-gray-700 p-3 rounded disabled:opacity-50" />
+        </div>
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Batal</button>
+          <button onClick={handleSave} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded">Simpan</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReminderSettingsModal;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { Resident } from '../types';
+import { generateResidentId, normalizeName } from '../utils/residents';
+
+const ResidentRegistry: React.FC<{
+  residents: Resident[];
+  needsMigration: boolean;
+  onSave: (residents: Resident[]) => Promise<void>;
+  onMigrate: () => Promise<void>;
+}> = ({ residents, needsMigration, onSave, onMigrate }) => {
+  const [draft, setDraft] = useState<Resident[]>(residents);
+  const [showInactive, setShowInactive] = useState(false);
+
+  useEffect(() => {
+    setDraft(residents);
+  }, [residents]);
+
+  const updateResident = (id: string, changes: Partial<Resident>) => {
+    setDraft(draft.map(resident => resident.id === id ? { ...resident, ...changes } : resident));
+  };
+
+  const addResident = () => {
+    setDraft([...draft, { id: generateResidentId(draft), name: '', houseNumber: '', phone: '', active: true }]);
+  };
+
+  const handleSave = async () => {
+    const names = draft.map(resident => normalizeName(resident.name));
+    if (names.some(name => !name)) {
+      alert('Nama warga tidak boleh kosong.');
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      alert('Ada nama warga yang sama. Tambahkan nomor rumah untuk membedakan.');
+      return;
+    }
+    await onSave(draft.map(resident => ({ ...resident, name: resident.name.trim(), houseNumber: resident.houseNumber.trim().toUpperCase() })));
+  };
+
+  const visibleResidents = draft
+    .filter(resident => showInactive || resident.active)
+    .sort((a, b) => a.houseNumber.localeCompare(b.houseNumber, undefined, { numeric: true }) || a.name.localeCompare(b.name));
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(residents);
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-5xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Daftar Warga</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+          Tampilkan warga tidak aktif
+        </label>
+      </div>
+
+      {needsMigration && (
+        <div className="bg-yellow-900/40 text-yellow-200 p-4 rounded mb-6 text-sm flex flex-col sm:flex-row justify-between items-center gap-3">
+          <p>Jadwal atau absensi masih memakai nama yang belum terhubung ke daftar warga.</p>
+          <button onClick={onMigrate} className="py-2 px-4 bg-yellow-600 hover:bg-yellow-500 text-white rounded font-semibold whitespace-nowrap">Hubungkan Nama</button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-400 border-b border-gray-600">
+            <tr><th className="p-2">ID</th><th className="p-2">Nama</th><th className="p-2">Rumah</th><th className="p-2">No. HP</th><th className="p-2">Aktif</th></tr>
+          </thead>
+          <tbody>
+            {visibleResidents.map(resident => (
+              <tr key={resident.id} className={`border-b border-gray-700 ${resident.active ? '' : 'opacity-50'}`}>
+                <td className="p-2 text-gray-500">{resident.id}</td>
+                <td className="p-2"><input value={resident.name} onChange={(e) => updateResident(resident.id, { name: e.target.value })} placeholder="Bp ..." className="w-full bg-gray-700 p-2 rounded" /></td>
+                <td className="p-2"><input value={resident.houseNumber} onChange={(e) => updateResident(resident.id, { houseNumber: e.target.value })} placeholder="H01" className="w-20 bg-gray-700 p-2 rounded" /></td>
+                <td className="p-2"><input type="tel" value={resident.phone} onChange={(e) => updateResident(resident.id, { phone: e.target.value })} placeholder="08..." className="w-36 bg-gray-700 p-2 rounded" /></td>
+                <td className="p-2"><input type="checkbox" checked={resident.active} onChange={(e) => updateResident(resident.id, { active: e.target.checked })} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between gap-4 mt-6">
+        <button onClick={addResident} className="py-2 px-4 bg-blue-600 hover:bg-blue-500 rounded font-semibold">Tambah Warga</button>
+        <button onClick={handleSave} disabled={!isDirty} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded font-semibold disabled:opacity-50">Simpan</button>
+      </div>
+    </div>
+  );
+};
+
+export default ResidentRegistry;
@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceRecord, Resident, Schedule } from '../types';
+import { NAMA_HARI } from '../constants';
+import { getShiftLabel } from '../utils/dates';
+import { getOfficerName } from '../utils/residents';
+import { diffSchedules, generateRoster, RosterProposal } from '../utils/rosterGenerator';
+
+type DayPreference = 'netral' | 'suka' | 'tidak';
+
+const PREFERENCE_STYLES: { [key in DayPreference]: { label: string; className: string } } = {
+  netral: { label: '', className: 'bg-gray-700 hover:bg-gray-600' },
+  suka: { label: '✓', className: 'bg-green-700 hover:bg-green-600' },
+  tidak: { label: '✕', className: 'bg-red-800 hover:bg-red-700' },
+};
+
+const NEXT_PREFERENCE: { [key in DayPreference]: DayPreference } = { netral: 'suka', suka: 'tidak', tidak: 'netral' };
+
+const RosterGenerator: React.FC<{
+  residents: Resident[];
+  records: AttendanceRecord[];
+  current: Schedule;
+  onApply: (schedule: Schedule, residents: Resident[]) => void;
+  onCancel: () => void;
+}> = ({ residents, records, current, onApply, onCancel }) => {
+  const [draft, setDraft] = useState<Resident[]>(residents);
+  const activeResidents = useMemo(
+    () => draft.filter(resident => resident.active).sort((a, b) => a.name.localeCompare(b.name)),
+    [draft],
+  );
+  const [groupSize, setGroupSize] = useState(() => String(Math.max(1, Math.round(activeResidents.length / 7))));
+  const [weightByAttendance, setWeightByAttendance] = useState(false);
+  const [proposal, setProposal] = useState<RosterProposal | null>(null);
+
+  const getPreference = (resident: Resident, day: number): DayPreference =>
+    resident.preferredDays?.includes(day) ? 'suka' : resident.blockedDays?.includes(day) ? 'tidak' : 'netral';
+
+  const togglePreference = (resident: Resident, day: number) => {
+    const next = NEXT_PREFERENCE[getPreference(resident, day)];
+    const preferredDays = (resident.preferredDays || []).filter(other => other !== day);
+    const blockedDays = (resident.blockedDays || []).filter(other => other !== day);
+    if (next === 'suka') preferredDays.push(day);
+    if (next === 'tidak') blockedDays.push(day);
+    setDraft(draft.map(other => other.id === resident.id ? { ...other, preferredDays: preferredDays.sort(), blockedDays: blockedDays.sort() } : other));
+    setProposal(null);
+  };
+
+  const handleGenerate = () => {
+    const size = parseInt(groupSize, 10);
+    if (!size || size < 1) {
+      alert('Jumlah petugas per malam minimal 1.');
+      return;
+    }
+    setProposal(generateRoster(draft, records, { groupSize: size, weightByAttendance }));
+  };
+
+  const diff = proposal ? diffSchedules(current, proposal.schedule) : [];
+  const shortNights = diff.filter(({ kept, added }) => kept.length + added.length < parseInt(groupSize, 10));
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-400">Tandai hari yang disukai (✓) atau tidak bisa (✕) untuk setiap warga, lalu buat usulan. Hari berarti malam yang dimulai pada hari itu.</p>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-400">
+          Petugas per malam
+          <input type="number" min={1} value={groupSize} onChange={(e) => { setGroupSize(e.target.value); setProposal(null); }} className="w-20 bg-gray-700 p-2 rounded text-white" />
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          <input type="checkbox" checked={weightByAttendance} onChange={(e) => { setWeightByAttendance(e.target.checked); setProposal(null); }} />
+          Sebarkan warga yang rajin hadir ke setiap malam
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-gray-400 border-b border-gray-600">
+            <tr>
+              <th className="p-2 text-left">Warga</th>
+              {Object.keys(NAMA_HARI).map(day => <th key={day} className="p-2">{NAMA_HARI[parseInt(day, 10)].slice(0, 3)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {activeResidents.map(resident => (
+              <tr key={resident.id} className="border-b border-gray-700">
+                <td className="p-2 whitespace-nowrap">{resident.name}</td>
+                {Object.keys(NAMA_HARI).map(dayKey => {
+                  const day = parseInt(dayKey, 10);
+                  const { label, className } = PREFERENCE_STYLES[getPreference(resident, day)];
+                  return (
+                    <td key={day} className="p-1 text-center">
+                      <button onClick={() => togglePreference(resident, day)} className={`w-8 h-8 rounded font-bold ${className}`}>{label}</button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!activeResidents.length && <p className="text-sm text-yellow-400">Belum ada warga aktif. Tambahkan warga di halaman Warga terlebih dahulu.</p>}
+
+      <div className="flex justify-end">
+        <button onClick={handleGenerate} disabled={!activeResidents.length} className="py-2 px-6 bg-blue-600 hover:bg-blue-500 rounded font-semibold disabled:opacity-50">Buat Usulan</button>
+      </div>
+
+      {proposal && (
+        <div>
+          <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Perbandingan dengan Jadwal Sekarang</h3>
+          <ul className="space-y-3">
+            {diff.map(({ day, kept, added, removed }) => (
+              <li key={day} className="bg-gray-700/50 p-3 rounded text-sm">
+                <p className="font-semibold text-gray-300 mb-2">{`${getShiftLabel(day)} (${kept.length + added.length} petugas)`}</p>
+                <div className="flex flex-wrap gap-2">
+                  {kept.map(id => <span key={id} className="px-2 py-0.5 rounded bg-gray-600">{getOfficerName(residents, id)}</span>)}
+                  {added.map(id => <span key={id} className="px-2 py-0.5 rounded bg-green-800 text-green-100">{`+ ${getOfficerName(residents, id)}`}</span>)}
+                  {removed.map(id => <span key={id} className="px-2 py-0.5 rounded bg-red-900 text-red-200 line-through">{getOfficerName(residents, id)}</span>)}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {shortNights.length > 0 && (
+            <p className="text-sm text-yellow-400 mt-3">{`Kurang petugas: ${shortNights.map(({ day }) => NAMA_HARI[day]).join(', ')}. Kurangi tanda ✕ atau jumlah petugas per malam.`}</p>
+          )}
+          {proposal.unassigned.length > 0 && (
+            <p className="text-sm text-yellow-400 mt-3">{`Tidak mendapat jadwal karena tidak bisa di semua hari: ${proposal.unassigned.map(resident => resident.name).join(', ')}.`}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-4">
+        <button onClick={onCancel} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Kembali</button>
+        <button onClick={() => proposal && onApply(proposal.schedule, draft)} disabled={!proposal} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded disabled:opacity-50">Pakai Usulan Ini</button>
+      </div>
+    </div>
+  );
+};
+
+export default RosterGenerator;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AttendanceRecord, Block } from '../types';
+import { formatRupiah } from '../utils/cashLedger';
+import { parseDateString } from '../utils/dates';
+import { getBlockShiftDateSettings, getToday, ShiftDateSettings, TIME_ZONE_OPTIONS } from '../utils/shiftDate';
+import { computeMonthSummary } from '../utils/statistics';
+import { showSpinner } from '../utils/spinner';
+
+const RwOverview: React.FC<{
+  blocks: Block[];
+  activeBlockId: string;
+  activeRecords: AttendanceRecord[];
+  loadRecords: (block: Block) => Promise<AttendanceRecord[]>;
+  onOpenBlock: (blockId: string) => void;
+  onAddBlock?: (name: string) => Promise<void>;
+  onRenameBlock?: (block: Block, name: string) => Promise<void>;
+  onSaveShiftDate?: (block: Block, settings: ShiftDateSettings) => Promise<void>;
+}> = ({ blocks, activeBlockId, activeRecords, loadRecords, onOpenBlock, onAddBlock, onRenameBlock, onSaveShiftDate }) => {
+  const [month, setMonth] = useState(() => getToday().slice(0, 7));
+  // Records of the other blocks; the active block's come from the app so unsynced edits show.
+  const [otherRecords, setOtherRecords] = useState<{ [blockId: string]: AttendanceRecord[] | null }>({});
+  const [newBlockName, setNewBlockName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const others = blocks.filter(block => block.id !== activeBlockId);
+    showSpinner(true);
+    Promise.all(others.map(block => loadRecords(block).catch(error => {
+      console.error(`Error loading records of ${block.name}`, error);
+      return null;
+    }))).then(results => {
+      if (!cancelled) setOtherRecords(Object.fromEntries(others.map((block, index) => [block.id, results[index]])));
+    }).finally(() => showSpinner(false));
+    return () => { cancelled = true; };
+  }, [blocks, activeBlockId, loadRecords]);
+
+  const rows = useMemo(() => blocks.map(block => {
+    const records = block.id === activeBlockId ? activeRecords : otherRecords[block.id];
+    return { block, summary: records ? computeMonthSummary(records, month) : null };
+  }), [blocks, activeBlockId, activeRecords, otherRecords, month]);
+
+  const monthLabel = parseDateString(`${month}-01`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newBlockName.trim();
+    if (!onAddBlock || !name) return;
+    if (blocks.some(block => block.name.toLowerCase() === name.toLowerCase())) {
+      alert(`${name} sudah terdaftar.`);
+      return;
+    }
+    await onAddBlock(name);
+    setNewBlockName('');
+  };
+
+  const handleRename = async (block: Block) => {
+    const name = prompt('Nama blok:', block.name)?.trim();
+    if (!onRenameBlock || !name || name === block.name) return;
+    await onRenameBlock(block, name);
+  };
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-5xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Rekap RW</h2>
+        <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2" />
+      </div>
+      <p className="text-sm text-gray-400 mb-4">{`Perbandingan kehadiran dan prelek antar blok, ${monthLabel}.`}</p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-400 border-b border-gray-600">
+            <tr>
+              {['Blok', 'Malam', 'Hadir', 'Ijin', 'Alpa', 'Diganti', 'Kehadiran', 'Prelek', 'Rata-rata Prelek', ''].map(header => <th key={header} className="p-2 whitespace-nowrap">{header}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ block, summary }) => (
+              <tr key={block.id} className={`border-b border-gray-700 ${block.id === activeBlockId ? 'bg-teal-900/20' : ''}`}>
+                <td className="p-2 font-medium text-gray-200 whitespace-nowrap">{block.name}</td>
+                {summary ? (
+                  <>
+                    <td className="p-2">{summary.nights}</td>
+                    <td className="p-2 text-green-400">{summary.hadir}</td>
+                    <td className="p-2 text-yellow-400">{summary.ijin}</td>
+                    <td className="p-2 text-red-400">{summary.alpa}</td>
+                    <td className="p-2 text-blue-400">{summary.diganti}</td>
+                    <td className="p-2 font-semibold">{summary.total ? `${summary.percentage}%` : '-'}</td>
+                    <td className="p-2 whitespace-nowrap">{formatRupiah(summary.collection)}</td>
+                    <td className="p-2 whitespace-nowrap">{summary.nights ? formatRupiah(Math.round(summary.collection / summary.nights)) : '-'}</td>
+                  </>
+                ) : (
+                  <td colSpan={8} className="p-2 text-gray-500">{block.id in otherRecords ? 'Gagal memuat data.' : 'Memuat...'}</td>
+                )}
+                <td className="p-2 text-right whitespace-nowrap space-x-3">
+                  {onRenameBlock && <button onClick={() => handleRename(block)} className="text-gray-400 hover:text-gray-200">Ubah Nama</button>}
+                  {block.id !== activeBlockId && <button onClick={() => onOpenBlock(block.id)} className="text-blue-400 hover:text-blue-300">Buka</button>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {onSaveShiftDate && (
+        <div className="mt-6 pt-6 border-t border-gray-600">
+          <h3 className="text-lg font-semibold text-gray-300 mb-1">Waktu Ronda</h3>
+          <p className="text-sm text-gray-400 mb-3">Absensi yang diisi sebelum jam pergantian dicatat untuk ronda malam sebelumnya. Berlaku di semua perangkat blok tersebut.</p>
+          <div className="space-y-2">
+            {blocks.map(block => {
+              const settings = getBlockShiftDateSettings(block);
+              return (
+                <div key={block.id} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center">
+                  <span className="text-gray-200">{block.name}</span>
+                  <select value={settings.timeZone} onChange={(e) => onSaveShiftDate(block, { ...settings, timeZone: e.target.value })} className="bg-gray-700 border-gray-600 rounded-md p-2">
+                    {TIME_ZONE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                  <select value={settings.cutoffHour} onChange={(e) => onSaveShiftDate(block, { ...settings, cutoffHour: Number(e.target.value) })} className="bg-gray-700 border-gray-600 rounded-md p-2">
+                    {Array.from({ length: 24 }, (_, hour) => <option key={hour} value={hour}>{`Pergantian jam ${String(hour).padStart(2, '0')}:00`}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {onAddBlock && (
+        <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2 mt-6 pt-6 border-t border-gray-600">
+          <input type="text" value={newBlockName} onChange={(e) => setNewBlockName(e.target.value)} placeholder="Nama blok baru, mis. Blok G" className="flex-grow bg-gray-700 border-gray-600 rounded-md p-2" />
+          <button type="submit" disabled={!newBlockName.trim()} className="py-2 px-4 bg-teal-600 hover:bg-teal-700 rounded font-semibold disabled:opacity-50">Tambah Blok</button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RwOverview;
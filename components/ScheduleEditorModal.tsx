@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { AttendanceRecord, Resident, RotationPattern, Schedule, ScheduleVersion } from '../types';
+import { NAMA_HARI } from '../constants';
+import { getShiftLabel } from '../utils/dates';
+import { getOfficerName } from '../utils/residents';
+import { sortSchedules } from '../utils/schedule';
+import { getToday } from '../utils/shiftDate';
+import RosterGenerator from './RosterGenerator';
+
+const ROTATION_LABELS: { [key in RotationPattern]: string } = {
+  tetap: 'Tetap setiap minggu',
+  ab: 'Bergantian minggu A / B',
+  geser: 'Bergeser satu hari setiap minggu',
+};
+
+const ScheduleEditorModal: React.FC<{
+  schedules: ScheduleVersion[];
+  residents: Resident[];
+  records: AttendanceRecord[];
+  onSave: (newSchedules: ScheduleVersion[]) => Promise<void>;
+  onSaveResidents?: (residents: Resident[]) => Promise<void>;
+  onClose: () => void;
+}> = ({ schedules: initialSchedules, residents, records, onSave, onSaveResidents, onClose }) => {
+    const [versions, setVersions] = useState<ScheduleVersion[]>(JSON.parse(JSON.stringify(sortSchedules(initialSchedules))));
+    const [selectedId, setSelectedId] = useState(versions[versions.length - 1].id);
+    const [weekIndex, setWeekIndex] = useState(0);
+    const [newOfficerName, setNewOfficerName] = useState<{ [key: number]: string }>({});
+    const [showGenerator, setShowGenerator] = useState(false);
+    // Day preferences set in the generator, saved together with the schedule.
+    const [editedResidents, setEditedResidents] = useState(residents);
+
+    const version = versions.find(v => v.id === selectedId) ?? versions[versions.length - 1];
+    const schedule = version.weeks[weekIndex] ?? version.weeks[0];
+
+    const updateVersion = (changes: Partial<ScheduleVersion>) => {
+        setVersions(versions.map(v => v.id === version.id ? { ...v, ...changes } : v));
+    };
+
+    const updateDay = (dayIndex: number, officers: string[]) => {
+        updateVersion({ weeks: version.weeks.map((week, index) => index === weekIndex ? { ...week, [dayIndex]: officers } : week) });
+    };
+
+    const addOfficer = (dayIndex: number) => {
+        const residentId = newOfficerName[dayIndex];
+        const officers = schedule[dayIndex] || [];
+        if (residentId && !officers.includes(residentId)) {
+            updateDay(dayIndex, [...officers, residentId]);
+            setNewOfficerName({ ...newOfficerName, [dayIndex]: '' });
+        }
+    };
+
+    const removeOfficer = (dayIndex: number, ref: string) => {
+        updateDay(dayIndex, (schedule[dayIndex] || []).filter(r => r !== ref));
+    };
+
+    // The proposal replaces the week being edited; it is only saved with the rest of the schedule.
+    const applyGenerated = (generated: Schedule, updatedResidents: Resident[]) => {
+        updateVersion({ weeks: version.weeks.map((week, index) => index === weekIndex ? generated : week) });
+        setEditedResidents(updatedResidents);
+        setShowGenerator(false);
+    };
+
+    const handleRotationChange = (rotation: RotationPattern) => {
+        const weeks = rotation === 'ab'
+            ? [version.weeks[0], version.weeks[1] ?? JSON.parse(JSON.stringify(version.weeks[0]))]
+            : [version.weeks[0]];
+        updateVersion({ rotation, weeks });
+        setWeekIndex(0);
+    };
+
+    const addVersion = () => {
+        const latest = versions[versions.length - 1];
+        const newVersion: ScheduleVersion = {
+            id: new Date().toISOString(),
+            effectiveFrom: getToday(),
+            rotation: latest.rotation,
+            weeks: JSON.parse(JSON.stringify(latest.weeks)),
+        };
+        setVersions([...versions, newVersion]);
+        setSelectedId(newVersion.id);
+        setWeekIndex(0);
+    };
+
+    const removeVersion = () => {
+        if (versions.length < 2 || !confirm(`Hapus jadwal yang berlaku mulai ${version.effectiveFrom}?`)) return;
+        const remaining = versions.filter(v => v.id !== version.id);
+        setVersions(remaining);
+        setSelectedId(remaining[remaining.length - 1].id);
+        setWeekIndex(0);
+    };
+
+    const handleSave = async () => {
+        const dates = versions.map(v => v.effectiveFrom);
+        if (dates.some(date => !date) || new Set(dates).size !== dates.length) {
+            alert('Setiap versi jadwal harus punya tanggal mulai berlaku yang berbeda.');
+            return;
+        }
+        await onSave(sortSchedules(versions));
+        if (onSaveResidents && JSON.stringify(editedResidents) !== JSON.stringify(residents)) await onSaveResidents(editedResidents);
+    };
+    
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-40 p-4">
+            <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold mb-6 text-teal-400">Ubah Jadwal Ronda</h2>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <select value={version.id} onChange={(e) => { setSelectedId(e.target.value); setWeekIndex(0); }} className="bg-gray-700 p-2 rounded flex-grow">
+                        {versions.map(v => <option key={v.id} value={v.id}>{`Berlaku mulai ${v.effectiveFrom}`}</option>)}
+                    </select>
+                    <button onClick={addVersion} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded text-sm font-semibold">Versi Baru</button>
+                    {versions.length > 1 && <button onClick={removeVersion} className="px-4 py-2 bg-red-700 hover:bg-red-600 rounded text-sm font-semibold">Hapus Versi</button>}
+                    {!showGenerator && <button onClick={() => setShowGenerator(true)} className="px-4 py-2 bg-teal-700 hover:bg-teal-600 rounded text-sm font-semibold">Buat Otomatis</button>}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6 text-sm">
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Berlaku mulai
+                        <input type="date" value={version.effectiveFrom} onChange={(e) => updateVersion({ effectiveFrom: e.target.value })} className="bg-gray-700 p-2 rounded text-white" />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Pola rotasi
+                        <select value={version.rotation} onChange={(e) => handleRotationChange(e.target.value as RotationPattern)} className="bg-gray-700 p-2 rounded text-white">
+                            {(Object.keys(ROTATION_LABELS) as RotationPattern[]).map(rotation => <option key={rotation} value={rotation}>{ROTATION_LABELS[rotation]}</option>)}
+                        </select>
+                    </label>
+                </div>
+                {version.rotation === 'ab' && (
+                    <div className="flex gap-2 mb-6">
+                        {['Minggu A', 'Minggu B'].map((label, index) => (
+                            <button key={label} onClick={() => setWeekIndex(index)} className={`py-1 px-4 rounded ${weekIndex === index ? 'bg-teal-600' : 'bg-gray-700 hover:bg-gray-600'}`}>{label}</button>
+                        ))}
+                    </div>
+                )}
+                {version.rotation === 'geser' && (
+                    <p className="text-sm text-gray-400 mb-6">Susunan di bawah berlaku pada minggu pertama; setiap minggu berikutnya tiap kelompok pindah ke hari setelahnya.</p>
+                )}
+                {showGenerator && (
+                    <div className="bg-gray-900/50 border border-gray-600 rounded-lg p-4 mb-8">
+                        <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2 mb-3">{version.rotation === 'ab' ? `Buat Otomatis: Minggu ${weekIndex ? 'B' : 'A'}` : 'Buat Otomatis'}</h3>
+                        <RosterGenerator residents={editedResidents} records={records} current={schedule} onApply={applyGenerated} onCancel={() => setShowGenerator(false)} />
+                    </div>
+                )}
+                {!residents.length && (
+                    <p className="text-sm text-yellow-400 mb-6">Daftar warga masih kosong. Tambahkan warga di halaman Warga untuk bisa memilih petugas.</p>
+                )}
+                <div className="space-y-6">
+                    {Object.keys(NAMA_HARI).map(dayKey => {
+                        const dayIndex = parseInt(dayKey, 10);
+                        return (
+                            <div key={dayIndex}>
+                                <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2 mb-3">{getShiftLabel(dayIndex)}</h3>
+                                <ul className="space-y-2 mb-3">
+                                    {schedule[dayIndex]?.map(ref => (
+                                        <li key={ref} className="flex justify-between items-center bg-gray-700 p-2 rounded">
+                                            <span>{getOfficerName(residents, ref)}</span>
+                                            <button onClick={() => removeOfficer(dayIndex, ref)} className="text-red-400 hover:text-red-300 font-bold">✕</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div className="flex gap-2">
+                                    <select
+                                        value={newOfficerName[dayIndex] || ''}
+                                        onChange={(e) => setNewOfficerName({ ...newOfficerName, [dayIndex]: e.target.value })}
+                                        className="flex-grow bg-gray-600 p-2 rounded"
+                                    >
+                                        <option value="">Pilih warga...</option>
+                                        {residents.filter(resident => resident.active && !schedule[dayIndex]?.includes(resident.id)).map(resident => (
+                                            <option key={resident.id} value={resident.id}>{resident.houseNumber ? `${resident.name} (${resident.houseNumber})` : resident.name}</option>
+                                        ))}
+                                    </select>
+                                    <button onClick={() => addOfficer(dayIndex)} className="px-4 bg-blue-600 hover:bg-blue-500 rounded text-sm font-semibold">Tambah</button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex justify-end gap-4 mt-8">
+                    <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Batal</button>
+                    <button onClick={handleSave} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded">Simpan Perubahan</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ScheduleEditorModal;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { AccessSettings, ConnectionCheck, GithubSettings, RestSettings, StorageSettings } from '../types';
+import { getPublicDataUrl, getReadOnlyLink } from '../services/access';
+import { hasToken } from '../services/crypto';
+import { testConnection } from '../services/storage';
+
+const SettingsModal: React.FC<{
+  onSave: (settings: StorageSettings, pins: { admin: string; coordinator: string }, passphrase: string) => void;
+  onClose: () => void;
+  currentSettings: StorageSettings | null;
+  accessSettings: AccessSettings;
+  folder: string;
+}> = ({ onSave, onClose, currentSettings, accessSettings, folder }) => {
+  const [type, setType] = useState<StorageSettings['type']>(currentSettings?.type ?? 'github');
+  const [publicUrl, setPublicUrl] = useState(currentSettings?.type === 'public' ? currentSettings.url : '');
+  const [adminPin, setAdminPin] = useState('');
+  const [coordinatorPin, setCoordinatorPin] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [checks, setChecks] = useState<ConnectionCheck[] | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [github, setGithub] = useState<GithubSettings>(
+    currentSettings?.type === 'github' ? currentSettings : { user: '', repo: '', token: '' }
+  );
+  const [rest, setRest] = useState<RestSettings>(
+    currentSettings?.type === 'rest' ? currentSettings : { url: '', token: '' }
+  );
+
+  const handleGithubChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setGithub({ ...github, [e.target.name]: e.target.value });
+  };
+
+  const handleRestChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setRest({ ...rest, [e.target.name]: e.target.value });
+  };
+
+  // Returns the settings from the form, or null after telling what is missing.
+  const buildSettings = (): StorageSettings | null => {
+    if (type === 'github') {
+      if (!github.user || !github.repo || !github.token) {
+        alert('Semua kolom harus diisi.');
+        return null;
+      }
+      return { type, ...github };
+    }
+    if (type === 'rest') {
+      if (!rest.url) {
+        alert('URL server harus diisi.');
+        return null;
+      }
+      return { type, ...rest };
+    }
+    if (type === 'public') {
+      if (!publicUrl) {
+        alert('URL data harus diisi.');
+        return null;
+      }
+      return { type, url: publicUrl };
+    }
+    return { type };
+  };
+
+  const handleTest = async () => {
+    const settings = buildSettings();
+    if (!settings) return;
+    setIsTesting(true);
+    setChecks(null);
+    try {
+      setChecks(await testConnection(settings, folder));
+    } catch (error) {
+      setChecks([{ label: 'Koneksi', status: 'error', message: `Tidak dapat terhubung: ${error instanceof Error ? error.message : String(error)}` }]);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if ([adminPin, coordinatorPin].some(pin => pin && !/^\d{4,8}$/.test(pin))) {
+      alert('PIN harus berupa 4-8 angka.');
+      return;
+    }
+    if (coordinatorPin && !adminPin && !accessSettings.adminPinHash) {
+      alert('Tetapkan PIN admin terlebih dahulu agar pengaturan ikut terkunci.');
+      return;
+    }
+    const settings = buildSettings();
+    if (!settings) return;
+    if (hasToken(settings) && passphrase.length < 8) {
+      alert('Frasa sandi minimal 8 karakter. Token hanya disimpan dalam bentuk terenkripsi.');
+      return;
+    }
+    onSave(settings, { admin: adminPin, coordinator: coordinatorPin }, passphrase);
+  };
+
+  const CHECK_COLORS: { [key in ConnectionCheck['status']]: string } = {
+    ok: 'text-green-400',
+    warning: 'text-yellow-400',
+    error: 'text-red-400',
+  };
+
+  // Residents get a link to the published files, never the token.
+  const readOnlyDataUrl = getPublicDataUrl(type === 'github' ? { type, ...github } : type === 'public' ? { type, url: publicUrl } : null);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-4 text-teal-400">Pengaturan Penyimpanan</h2>
+        <select value={type} onChange={(e) => setType(e.target.value as StorageSettings['type'])} className="w-full bg-gray-700 p-3 rounded mb-4">
+          <option value="github">Repositori GitHub</option>
+          <option value="local">Hanya di perangkat ini</option>
+          <option value="rest">Server REST/JSON</option>
+          <option value="public">Baca saja dari URL publik</option>
+        </select>
+        {type === 'github' && (
+          <>
+            <p className="text-gray-400 mb-6">
+              Masukkan detail repositori GitHub Anda untuk menyimpan data absensi dan jadwal.
+              <a href="https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/managing-your-personal-access-tokens" target="_blank" rel="noopener noreferrer" className="text-teal-500 hover:underline ml-1">
+                Cara membuat token (PAT).
+              </a>
+            </p>
+            <div className="space-y-4">
+              <input name="user" value={github.user} onChange={handleGithubChange} placeholder="Username GitHub" className="w-full bg-gray-700 p-3 rounded" />
+              <input name="repo" value={github.repo} onChange={handleGithubChange} placeholder="Nama Repositori" className="w-full bg-gray-700 p-3 rounded" />
+              <input name="token" type="password" value={github.token} onChange={handleGithubChange} placeholder="Personal Access Token" className="w-full bg-gray-700 p-3 rounded" />
+            </div>
+          </>
+        )}
+        {type === 'local' && (
+          <p className="text-gray-400">Data hanya disimpan di browser perangkat ini dan tidak dibagikan ke perangkat lain. Gunakan fitur unduh untuk cadangan.</p>
+        )}
+        {type === 'rest' && (
+          <>
+            <p className="text-gray-400 mb-6">Server harus melayani GET dan PUT untuk setiap file JSON, misalnya <code>https://contoh.id/ronda/data.json</code>.</p>
+            <div className="space-y-4">
+              <input name="url" value={rest.url} onChange={handleRestChange} placeholder="URL dasar, mis. https://contoh.id/ronda" className="w-full bg-gray-700 p-3 rounded" />
+              <input name="token" type="password" value={rest.token} onChange={handleRestChange} placeholder="Token (opsional)" className="w-full bg-gray-700 p-3 rounded" />
+            </div>
+          </>
+        )}
+        {type === 'public' && (
+          <>
+            <p className="text-gray-400 mb-6">Data hanya dibaca dari salinan yang dipublikasikan, misalnya <code>https://raw.githubusercontent.com/user/repo/main</code>. Tidak perlu token dan tidak bisa mengubah data.</p>
+            <input value={publicUrl} onChange={(e) => setPublicUrl(e.target.value)} placeholder="URL dasar file JSON" className="w-full bg-gray-700 p-3 rounded" />
+          </>
+        )}
+        {(type === 'github' || type === 'rest') && (
+          <div className="mt-4">
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Frasa sandi untuk mengenkripsi token" className="w-full bg-gray-700 p-3 rounded" />
+            <p className="text-xs text-gray-400 mt-1">Token disimpan terenkripsi di perangkat ini. Frasa sandi diminta setiap kali aplikasi dibuka.</p>
+          </div>
+        )}
+        {type !== 'local' && (
+          <div className="mt-4">
+            <button onClick={handleTest} disabled={isTesting} className="py-2 px-4 bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50">{isTesting ? 'Menguji...' : 'Uji Koneksi'}</button>
+            {checks && (
+              <ul className="mt-3 space-y-1 text-sm">
+                {checks.map(check => (
+                  <li key={check.label} className={CHECK_COLORS[check.status]}>
+                    {`${check.status === 'ok' ? '✓' : check.status === 'warning' ? '!' : '✕'} ${check.label}: ${check.message}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {type !== 'public' && (
+          <div className="mt-6 pt-4 border-t border-gray-700 space-y-3">
+            <h3 className="font-semibold text-gray-300">Akses</h3>
+            <p className="text-sm text-gray-400">
+              {accessSettings.adminPinHash ? 'Kosongkan untuk tetap memakai PIN yang sekarang.' : 'Tanpa PIN admin, siapa pun yang membuka aplikasi di perangkat ini dapat mengubah jadwal dan pengaturan.'}
+            </p>
+            <input type="password" inputMode="numeric" value={adminPin} onChange={(e) => setAdminPin(e.target.value)} placeholder="PIN admin baru" className="w-full bg-gray-700 p-3 rounded" />
+            <input type="password" inputMode="numeric" value={coordinatorPin} onChange={(e) => setCoordinatorPin(e.target.value)} placeholder="PIN koordinator baru" className="w-full bg-gray-700 p-3 rounded" />
+          </div>
+        )}
+        {readOnlyDataUrl && (
+          <div className="mt-6 text-sm text-gray-400">
+            <p className="mb-1">Tautan baca saja untuk warga (repositori harus publik):</p>
+            <input readOnly value={getReadOnlyLink(readOnlyDataUrl)} onFocus={(e) => e.target.select()} className="w-full bg-gray-700 p-2 rounded text-gray-300" />
+          </div>
+        )}
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Batal</button>
+          <button onClick={handleSave} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded">Simpan</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
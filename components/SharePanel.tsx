@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AttendanceRecord, NightException, Resident, ScheduleVersion } from '../types';
+import { formatRupiah } from '../utils/cashLedger';
+import { resolveNightOfficers } from '../utils/nightExceptions';
+import { getOfficerName } from '../utils/residents';
+import { getShiftDayLabel, getToday } from '../utils/shiftDate';
+import { DEFAULT_MESSAGE_TEMPLATES, fillTemplate, formatAttendanceLines, formatLongDate, MessageTemplateKey } from '../utils/whatsapp';
+
+const SharePanel: React.FC<{
+  records: AttendanceRecord[];
+  schedules: ScheduleVersion[];
+  exceptions: NightException[];
+  residents: Resident[];
+  blockName: string;
+}> = ({ records, schedules, exceptions, residents, blockName }) => {
+  const [templates, setTemplates] = useState<{ [key in MessageTemplateKey]: string }>(() => {
+    try {
+      return { ...DEFAULT_MESSAGE_TEMPLATES, ...JSON.parse(localStorage.getItem('messageTemplates') || '{}') };
+    } catch (error) {
+      console.error('Error reading message templates from localStorage', error);
+      return DEFAULT_MESSAGE_TEMPLATES;
+    }
+  });
+  const [editingTemplate, setEditingTemplate] = useState<MessageTemplateKey | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem('messageTemplates', JSON.stringify(templates));
+  }, [templates]);
+
+  const messages = useMemo(() => {
+    const tonight = getToday();
+    const officers = resolveNightOfficers(schedules, exceptions, tonight).map(ref => getOfficerName(residents, ref));
+    const latestRecord = [...records].sort((a, b) => b.date.localeCompare(a.date))[0];
+
+    return {
+      reminder: fillTemplate(templates.reminder, {
+        blok: blockName,
+        hari: getShiftDayLabel(tonight),
+        tanggal: formatLongDate(tonight),
+        petugas: officers.length ? officers.map((name, index) => `${index + 1}. ${name}`).join('\n') : '(jadwal belum diatur)',
+      }),
+      report: latestRecord ? fillTemplate(templates.report, {
+        blok: blockName,
+        hari: latestRecord.day,
+        tanggal: formatLongDate(latestRecord.date),
+        rekap: formatAttendanceLines(latestRecord),
+        prelek: formatRupiah(latestRecord.collection),
+        keterangan: latestRecord.notes ? `Keterangan: ${latestRecord.notes}` : '',
+      }).trim() : '',
+    };
+  }, [records, schedules, exceptions, residents, blockName, templates]);
+
+  const copyMessage = async (message: string) => {
+    try {
+      await navigator.clipboard.writeText(message);
+      alert('Pesan disalin.');
+    } catch (error) {
+      alert('Gagal menyalin pesan. Salin secara manual dari pratinjau.');
+    }
+  };
+
+  const cards: { key: MessageTemplateKey; title: string; placeholders: string }[] = [
+    { key: 'reminder', title: 'Pengingat Petugas Malam Ini', placeholders: '{blok} {hari} {tanggal} {petugas}' },
+    { key: 'report', title: 'Laporan Ronda Terakhir', placeholders: '{blok} {hari} {tanggal} {rekap} {prelek} {keterangan}' },
+  ];
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto space-y-10">
+      <h2 className="text-2xl font-bold text-teal-400">Bagikan ke WhatsApp</h2>
+      {cards.map(card => (
+        <div key={card.key}>
+          <div className="flex justify-between items-center border-b border-gray-600 pb-2 mb-4">
+            <h3 className="text-lg font-semibold">{card.title}</h3>
+            <button onClick={() => setEditingTemplate(editingTemplate === card.key ? null : card.key)} className="text-sm text-blue-400 hover:text-blue-300">
+              {editingTemplate === card.key ? 'Selesai' : 'Ubah Template'}
+            </button>
+          </div>
+          {editingTemplate === card.key && (
+            <div className="mb-4">
+              <textarea
+                value={templates[card.key]}
+                onChange={(e) => setTemplates({ ...templates, [card.key]: e.target.value })}
+                rows={8}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 font-mono text-sm"
+              />
+              <div className="flex justify-between text-xs text-gray-400 mt-1">
+                <span>{`Kode yang tersedia: ${card.placeholders}`}</span>
+                <button onClick={() => setTemplates({ ...templates, [card.key]: DEFAULT_MESSAGE_TEMPLATES[card.key] })} className="hover:text-gray-200">Kembalikan bawaan</button>
+              </div>
+            </div>
+          )}
+          {messages[card.key] ? (
+            <>
+              <pre className="bg-gray-900 p-4 rounded text-sm whitespace-pre-wrap font-sans">{messages[card.key]}</pre>
+              <div className="flex justify-end gap-3 mt-3">
+                <button onClick={() => copyMessage(messages[card.key])} className="bg-gray-600 hover:bg-gray-500 font-semibold py-2 px-4 rounded-lg">Salin</button>
+                <a href={`https://wa.me/?text=${encodeURIComponent(messages[card.key])}`} target="_blank" rel="noopener noreferrer" className="bg-green-600 hover:bg-green-700 font-semibold py-2 px-4 rounded-lg">Kirim ke WhatsApp</a>
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-400">Belum ada data absensi.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,301 @@
+import React, { useState, useMemo } from 'react';
+import { NightException, Resident, ScheduleVersion, ShiftRequest, Submission } from '../types';
+import { getSubmissionWhatsAppUrl } from '../services/submissions';
+import { resolveNightOfficers } from '../utils/nightExceptions';
+import { getOfficerName, loadOwnResidentId, saveOwnResidentId } from '../utils/residents';
+import { addDays, getShiftDate, getShiftDayLabel } from '../utils/shiftDate';
+import { applyApprovedRequests, awaitsAdmin, awaitsPartner, REQUEST_STATUS_COLORS, REQUEST_STATUS_LABELS } from '../utils/shiftRequests';
+
+const ShiftRequestsPanel: React.FC<{
+  schedules: ScheduleVersion[];
+  exceptions: NightException[];
+  residents: Resident[];
+  requests: ShiftRequest[];
+  actorName: string;
+  isAdmin: boolean;
+  blockId: string;
+  submission: Submission | null;
+  onCloseSubmission: () => void;
+  onSave?: (requests: ShiftRequest[], summary: string) => Promise<void>;
+}> = ({ schedules, exceptions, residents, requests, actorName, isAdmin, blockId, submission, onCloseSubmission, onSave }) => {
+  const today = getShiftDate();
+  const [ownId, setOwnId] = useState(loadOwnResidentId);
+  const [type, setType] = useState<ShiftRequest['type']>('ijin');
+  const [date, setDate] = useState(today);
+  const [swapWithId, setSwapWithId] = useState('');
+  const [returnDate, setReturnDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  const activeResidents = useMemo(
+    () => residents.filter(resident => resident.active).sort((a, b) => a.name.localeCompare(b.name)),
+    [residents],
+  );
+  const name = (id?: string) => id ? getOfficerName(residents, id) : '-';
+  const nightLabel = (dateString: string) => `${getShiftDayLabel(dateString)} ${dateString}`;
+  // The night's roster with every other approved swap applied.
+  const rosterOn = (dateString: string, request: ShiftRequest) => applyApprovedRequests(
+    resolveNightOfficers(schedules, exceptions, dateString),
+    requests.filter(other => other.id !== request.id),
+    dateString,
+  ).onDuty;
+
+  const selectOwn = (id: string) => {
+    saveOwnResidentId(id);
+    setOwnId(id);
+  };
+
+  const describeRequest = (request: ShiftRequest) => request.type === 'ijin'
+    ? `${name(request.residentId)} ijin ${nightLabel(request.date)}`
+    : `${name(request.swapWithId)} menggantikan ${name(request.residentId)} ${nightLabel(request.date)}`
+      + (request.returnDate ? `, dibalas ${nightLabel(request.returnDate)}` : '');
+
+  // Checked when filing and again when approving, since other swaps may have been approved in between.
+  const findRosterConflict = (request: ShiftRequest) => {
+    const onDuty = rosterOn(request.date, request);
+    if (!onDuty.includes(request.residentId)) return `${name(request.residentId)} tidak terjadwal pada ${nightLabel(request.date)}.`;
+    if (request.type === 'ijin' || !request.swapWithId) return null;
+    if (onDuty.includes(request.swapWithId)) return `${name(request.swapWithId)} sudah terjadwal pada ${nightLabel(request.date)}.`;
+    if (!request.returnDate) return null;
+    const onReturn = rosterOn(request.returnDate, request);
+    if (!onReturn.includes(request.swapWithId)) return `${name(request.swapWithId)} tidak terjadwal pada ${nightLabel(request.returnDate)}.`;
+    if (onReturn.includes(request.residentId)) return `${name(request.residentId)} sudah terjadwal pada ${nightLabel(request.returnDate)}.`;
+    return null;
+  };
+
+  // Also checked for requests received as submissions, which were filed on another phone.
+  const findRequestProblem = (request: ShiftRequest) => {
+    if (request.date < today) return 'Tanggal sudah lewat.';
+    const duplicate = requests.some(other => other.residentId === request.residentId && other.date === request.date && other.status !== 'ditolak');
+    if (duplicate) return 'Sudah ada permohonan untuk tanggal ini.';
+    if (request.type === 'tukar' && (!request.swapWithId || request.swapWithId === request.residentId)) return 'Pilih warga yang menggantikan.';
+    return findRosterConflict(request);
+  };
+
+  const validate = (request: ShiftRequest) => ownId ? findRequestProblem(request) : 'Pilih nama Anda terlebih dahulu.';
+
+  const sendOverWhatsApp = (sent: Submission, message: string) => {
+    window.open(getSubmissionWhatsAppUrl(sent, blockId, message), '_blank', 'noopener');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request: ShiftRequest = {
+      id: new Date().toISOString(),
+      type,
+      date,
+      residentId: ownId,
+      ...(type === 'tukar' && { swapWithId, ...(returnDate && { returnDate }) }),
+      reason: reason.trim(),
+      status: 'menunggu',
+      createdAt: new Date().toISOString(),
+    };
+    const error = validate(request);
+    if (error) {
+      alert(error);
+      return;
+    }
+    if (onSave) await onSave([...requests, request], `Permohonan: ${describeRequest(request)}`);
+    else sendOverWhatsApp({ kind: 'permohonan', request }, `Permohonan: ${describeRequest(request)}. Mohon diterima:`);
+    setReason('');
+    setSwapWithId('');
+    setReturnDate('');
+  };
+
+  const updateStatus = async (request: ShiftRequest, status: ShiftRequest['status']) => {
+    if (!onSave) return;
+    const conflict = status === 'disetujui' && findRosterConflict(request);
+    if (conflict) {
+      alert(`Permohonan tidak bisa disetujui: ${conflict}`);
+      return;
+    }
+    const decided = awaitsAdmin(request) ? { decidedBy: actorName || 'Admin' } : {};
+    const updated = requests.map(other => other.id === request.id ? { ...other, status, ...decided } : other);
+    await onSave(updated, `${describeRequest(request)}: ${REQUEST_STATUS_LABELS[status].toLowerCase()}`);
+  };
+
+  // Without write access the partner's answer goes through a coordinator, who can see it came from the partner's number.
+  const answerAsPartner = async (request: ShiftRequest, status: 'diterima' | 'ditolak') => {
+    if (onSave) {
+      await updateStatus(request, status);
+      return;
+    }
+    sendOverWhatsApp(
+      { kind: 'tanggapan', requestId: request.id, residentId: ownId, status },
+      `${name(ownId)} ${status === 'diterima' ? 'menerima' : 'menolak'} tukar jadwal: ${describeRequest(request)}. Mohon diterima:`,
+    );
+  };
+
+  const incomingRequest = submission?.kind === 'permohonan' ? submission.request : null;
+  const incomingAnswer = submission?.kind === 'tanggapan' ? submission : null;
+  const answeredRequest = incomingAnswer && requests.find(request => request.id === incomingAnswer.requestId);
+  const sender = submission?.kind === 'permohonan' ? submission.request.residentId : incomingAnswer?.residentId;
+  const senderResident = residents.find(resident => resident.id === sender);
+  const incomingProblem = !senderResident
+    ? 'Nama pengirim tidak ada di data warga.'
+    : incomingRequest
+      ? requests.some(request => request.id === incomingRequest.id) ? 'Kiriman ini sudah diterima.' : findRequestProblem(incomingRequest)
+      : !answeredRequest ? 'Permohonan yang ditanggapi tidak ditemukan.'
+        : answeredRequest.swapWithId !== incomingAnswer?.residentId ? 'Pengirim bukan warga yang diminta menggantikan.'
+          : !awaitsPartner(answeredRequest) ? 'Permohonan ini sudah ditanggapi.'
+            : null;
+
+  const acceptSubmission = async () => {
+    if (!onSave) return;
+    if (incomingRequest) {
+      const received: ShiftRequest = {
+        id: incomingRequest.id,
+        type: incomingRequest.type,
+        date: incomingRequest.date,
+        residentId: incomingRequest.residentId,
+        ...(incomingRequest.type === 'tukar' && { swapWithId: incomingRequest.swapWithId, ...(incomingRequest.returnDate && { returnDate: incomingRequest.returnDate }) }),
+        reason: incomingRequest.reason,
+        status: 'menunggu',
+        createdAt: incomingRequest.createdAt,
+      };
+      await onSave([...requests, received], `Permohonan: ${describeRequest(received)} (diterima dari kiriman)`);
+    } else if (incomingAnswer && answeredRequest) {
+      await updateStatus(answeredRequest, incomingAnswer.status);
+    }
+    onCloseSubmission();
+  };
+
+  const cancelRequest = async (request: ShiftRequest) => {
+    if (!onSave || !confirm('Batalkan permohonan ini?')) return;
+    await onSave(requests.filter(other => other.id !== request.id), `${describeRequest(request)}: dibatalkan`);
+  };
+
+  const forMe = requests.filter(request => awaitsPartner(request) && request.swapWithId === ownId);
+  const forAdmin = requests.filter(awaitsAdmin);
+  const recent = requests
+    .filter(request => request.date >= addDays(today, -30))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const renderRequest = (request: ShiftRequest, actions: React.ReactNode) => (
+    <li key={request.id} className="bg-gray-700/50 p-3 rounded flex flex-col sm:flex-row justify-between gap-2 text-sm">
+      <div>
+        <p className="text-gray-200">{describeRequest(request)}</p>
+        {request.reason && <p className="text-gray-400">{`Alasan: ${request.reason}`}</p>}
+        {request.decidedBy && <p className="text-gray-500">{`Diputuskan oleh ${request.decidedBy}`}</p>}
+      </div>
+      <div className="flex items-center gap-3 whitespace-nowrap">{actions}</div>
+    </li>
+  );
+
+  return (
+    <div className="bg-gray-800 p-8 rounded-xl shadow-lg w-full max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <h2 className="text-2xl font-bold text-teal-400">Ijin & Tukar Jadwal</h2>
+        <select value={ownId} onChange={(e) => selectOwn(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2">
+          <option value="">Pilih nama Anda</option>
+          {activeResidents.map(resident => <option key={resident.id} value={resident.id}>{resident.name}</option>)}
+        </select>
+      </div>
+
+      {(incomingRequest || incomingAnswer) && (
+        <div className="bg-yellow-900/40 border border-yellow-600 p-4 rounded-lg space-y-3">
+          <h3 className="font-semibold text-yellow-300">{incomingRequest ? 'Kiriman Permohonan' : 'Kiriman Tanggapan Tukar Jadwal'}</h3>
+          <p>
+            {incomingRequest
+              ? `${describeRequest(incomingRequest)}${incomingRequest.reason ? `. Alasan: ${incomingRequest.reason}` : ''}`
+              : `${name(incomingAnswer?.residentId)} ${incomingAnswer?.status === 'diterima' ? 'menerima' : 'menolak'}${answeredRequest ? `: ${describeRequest(answeredRequest)}` : ''}`}
+          </p>
+          {senderResident && (
+            <p className="text-sm text-gray-400">{`Terima hanya jika kiriman ini datang dari nomor WhatsApp ${senderResident.name}${senderResident.phone ? ` (${senderResident.phone})` : ''}.`}</p>
+          )}
+          {incomingProblem && <p className="text-sm text-red-400">{incomingProblem}</p>}
+          {!onSave && <p className="text-sm text-gray-400">Masuk sebagai koordinator atau admin untuk menerima kiriman ini.</p>}
+          <div className="flex gap-2">
+            {onSave && !incomingProblem && <button onClick={acceptSubmission} className="py-2 px-4 bg-teal-600 hover:bg-teal-700 rounded font-semibold">Terima</button>}
+            <button onClick={onCloseSubmission} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">{onSave ? 'Tolak' : 'Tutup'}</button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-4">
+            {([['ijin', 'Ijin'], ['tukar', 'Tukar jadwal']] as const).map(([value, label]) => (
+              <label key={value} className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="requestType" checked={type === value} onChange={() => setType(value)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+              Malam yang tidak bisa hadir
+              <input type="date" value={date} min={today} onChange={(e) => e.target.value && setDate(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white" />
+            </label>
+            {type === 'tukar' && (
+              <>
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                  Digantikan oleh
+                  <select value={swapWithId} onChange={(e) => setSwapWithId(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white">
+                    <option value="">Pilih warga</option>
+                    {activeResidents.filter(resident => resident.id !== ownId).map(resident => <option key={resident.id} value={resident.id}>{resident.name}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                  Saya ganti jaga pada (opsional)
+                  <input type="date" value={returnDate} min={today} onChange={(e) => setReturnDate(e.target.value)} className="bg-gray-700 border-gray-600 rounded-md p-2 text-white" />
+                </label>
+              </>
+            )}
+          </div>
+          <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Alasan" className="w-full bg-gray-700 border-gray-600 rounded-md p-2" />
+          <div className="flex justify-end">
+            <button type="submit" disabled={!ownId} className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded font-semibold disabled:opacity-50">{onSave ? 'Ajukan' : 'Ajukan lewat WhatsApp'}</button>
+          </div>
+        </form>
+        {!onSave && <p className="text-xs text-gray-500">Permohonan dikirim ke koordinator lewat WhatsApp dan baru tercatat setelah diterima.</p>}
+      </div>
+
+      {forMe.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Perlu Tanggapan Anda</h3>
+          {!onSave && <p className="text-xs text-gray-500 mb-3">Jawaban dikirim ke koordinator lewat WhatsApp dari nomor Anda dan berlaku setelah diterima.</p>}
+          <ul className="space-y-2">
+            {forMe.map(request => renderRequest(request, (
+              <>
+                <button onClick={() => answerAsPartner(request, 'diterima')} className="text-green-400 hover:text-green-300">Terima</button>
+                <button onClick={() => answerAsPartner(request, 'ditolak')} className="text-red-400 hover:text-red-300">Tolak</button>
+              </>
+            )))}
+          </ul>
+        </div>
+      )}
+
+      {onSave && isAdmin && forAdmin.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Menunggu Persetujuan Admin</h3>
+          <ul className="space-y-2">
+            {forAdmin.map(request => renderRequest(request, (
+              <>
+                <button onClick={() => updateStatus(request, 'disetujui')} className="text-green-400 hover:text-green-300">Setujui</button>
+                <button onClick={() => updateStatus(request, 'ditolak')} className="text-red-400 hover:text-red-300">Tolak</button>
+              </>
+            )))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold border-b border-gray-600 pb-2 mb-3">Daftar Permohonan</h3>
+        {recent.length ? (
+          <ul className="space-y-2">
+            {recent.map(request => renderRequest(request, (
+              <>
+                <span className={`px-2 py-0.5 rounded text-xs ${REQUEST_STATUS_COLORS[request.status]}`}>{REQUEST_STATUS_LABELS[request.status]}</span>
+                {onSave && request.residentId === ownId && (request.status === 'menunggu' || request.status === 'diterima') && (
+                  <button onClick={() => cancelRequest(request)} className="text-gray-400 hover:text-gray-200">Batalkan</button>
+                )}
+              </>
+            )))}
+          </ul>
+        ) : <p className="text-gray-400 text-sm">Belum ada permohonan.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftRequestsPanel;
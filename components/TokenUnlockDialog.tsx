@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+
+const TokenUnlockDialog: React.FC<{
+  onUnlock: (passphrase: string) => Promise<void>;
+  onSkip: () => void;
+}> = ({ onUnlock, onSkip }) => {
+  const [passphrase, setPassphrase] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onUnlock(passphrase);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-sm">
+        <h2 className="text-2xl font-bold mb-4 text-teal-400">Buka Token</h2>
+        <p className="text-gray-400 mb-4">Masukkan frasa sandi untuk membuka token penyimpanan. Tanpa token, aplikasi hanya menampilkan data yang tersimpan di perangkat.</p>
+        <input type="password" autoFocus value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className="w-full bg-gray-700 p-3 rounded" />
+        <div className="flex justify-end gap-4 mt-8">
+          <button type="button" onClick={onSkip} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded">Lewati</button>
+          <button type="submit" className="py-2 px-6 bg-teal-600 hover:bg-teal-700 rounded">Buka</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TokenUnlockDialog;
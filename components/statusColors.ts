@@ -0,0 +1,17 @@
+import { AttendanceStatus, FollowUpStatus } from '../types';
+
+export const getStatusColor = (status: AttendanceStatus) => {
+  switch (status) {
+    case AttendanceStatus.Hadir: return 'bg-green-500 text-green-900';
+    case AttendanceStatus.Ijin: return 'bg-yellow-500 text-yellow-900';
+    case AttendanceStatus.Alpa: return 'bg-red-500 text-red-900';
+    case AttendanceStatus.Diganti: return 'bg-blue-500 text-blue-900';
+    default: return 'bg-gray-500 text-gray-900';
+  }
+};
+
+export const FOLLOW_UP_COLORS: { [key in FollowUpStatus]: string } = {
+  [FollowUpStatus.Baru]: 'bg-red-500 text-red-900',
+  [FollowUpStatus.Ditindaklanjuti]: 'bg-yellow-500 text-yellow-900',
+  [FollowUpStatus.Selesai]: 'bg-green-500 text-green-900',
+};
@@ -0,0 +1,105 @@
+// Service worker: caches the built app for offline use and shows the patrol
+// reminders that services/reminders.ts schedules in IndexedDB.
+const SHELL_CACHE = 'ronda-shell-v2';
+const SHELL_FILES = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_FILES)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// App files: network first so updates arrive, cache when offline.
+// Bundles under assets/ carry a content hash, so cache first.
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET') return;
+  if (url.origin !== self.location.origin || url.pathname.endsWith('.json')) return;
+  const isHashed = url.pathname.includes('/assets/');
+
+  event.respondWith(caches.open(SHELL_CACHE).then(async cache => {
+    if (isHashed) {
+      const cached = await cache.match(event.request);
+      if (cached) return cached;
+    }
+    try {
+      const response = await fetch(event.request);
+      if (response.ok) cache.put(event.request, response.clone());
+      return response;
+    } catch (error) {
+      const cached = await cache.match(event.request);
+      if (cached) return cached;
+      throw error;
+    }
+  }));
+});
+
+// --- REMINDERS ---
+// Copies of idbGet/idbSet in services/offlineCache.ts and fireDueReminders in
+// services/reminders.ts; this file is served as is, not bundled. Keep them in
+// sync when either side changes.
+const openDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open('jadwal-ronda', 1);
+  request.onupgradeneeded = () => request.result.createObjectStore('cache');
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const idbGet = async key => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('cache').objectStore('cache').get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const idbSet = async (key, value) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('cache', 'readwrite');
+    transaction.objectStore('cache').put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const REMINDER_GRACE_MS = 3 * 60 * 60 * 1000;
+
+const fireDueReminders = async () => {
+  const reminders = (await idbGet('reminders')) || [];
+  const recordsByKey = {};
+  const now = Date.now();
+  let changed = false;
+  for (const reminder of reminders) {
+    const at = new Date(reminder.at).getTime();
+    if (reminder.shown || at > now || now - at > REMINDER_GRACE_MS) continue;
+    reminder.shown = true;
+    changed = true;
+    if (reminder.unlessRecordFor) {
+      const key = reminder.recordsKey || 'data.json';
+      recordsByKey[key] = recordsByKey[key] || (await idbGet(key)) || [];
+      if (recordsByKey[key].some(record => record.date === reminder.unlessRecordFor)) continue;
+    }
+    await self.registration.showNotification(reminder.title, { body: reminder.body, tag: reminder.id, icon: 'icon.svg' });
+  }
+  if (changed) await idbSet('reminders', reminders);
+};
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'ronda-reminders') event.waitUntil(fireDueReminders());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(self.clients.matchAll({ type: 'window' }).then(windows => {
+    const open = windows.find(client => 'focus' in client);
+    return open ? open.focus() : self.clients.openWindow('./');
+  }));
+});
@@ -0,0 +1,76 @@
+import { AccessSettings, Role, StorageSettings, SyncedFile } from '../types';
+
+export const ROLE_LABELS: { [key in Role]: string } = {
+  viewer: 'Warga (baca saja)',
+  coordinator: 'Koordinator',
+  admin: 'Admin',
+};
+
+// Which role may write each synced file.
+export const WRITE_ROLES: { [path in SyncedFile]: Role[] } = {
+  'data.json': ['coordinator', 'admin'],
+  'kas.json': ['coordinator', 'admin'],
+  'schedule.json': ['admin'],
+  'residents.json': ['admin'],
+  'denda.json': ['admin'],
+  // Officers without a PIN send their check-in as a submission instead (see services/submissions.ts).
+  'checkins.json': ['coordinator', 'admin'],
+  // Officers without a PIN file and answer requests as submissions; approving is left to admins in the UI.
+  'permohonan.json': ['coordinator', 'admin'],
+  'pengecualian.json': ['admin'],
+};
+
+// Thrown by a save the current role may not make, after the user was told why,
+// so callers skip their own success or failure message.
+export class ChangeRefusedError extends Error {}
+
+export const loadAccessSettings = (): AccessSettings => {
+  const saved = localStorage.getItem('accessSettings');
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const hashPin = async (pin: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`ronda:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// A coordinator unlock lasts for one night, until noon the next day. An admin
+// unlock lasts an hour. Both end when the tab is closed.
+export const ROLE_SESSION_KEY = 'roleSession';
+
+export const startRoleSession = (role: Role) => {
+  const expiresAt = new Date();
+  if (role === 'coordinator') {
+    if (expiresAt.getHours() >= 12) expiresAt.setDate(expiresAt.getDate() + 1);
+    expiresAt.setHours(12, 0, 0, 0);
+  } else {
+    expiresAt.setHours(expiresAt.getHours() + 1);
+  }
+  sessionStorage.setItem(ROLE_SESSION_KEY, JSON.stringify({ role, expiresAt: expiresAt.toISOString() }));
+};
+
+export const loadRoleSession = (): Role | null => {
+  const saved = sessionStorage.getItem(ROLE_SESSION_KEY);
+  if (!saved) return null;
+  const { role, expiresAt } = JSON.parse(saved);
+  return new Date(expiresAt) > new Date() ? role : null;
+};
+
+// Links of the form `?data=<url>` open the app read-only on that published
+// copy, without touching this device's own settings.
+export const getSharedDataUrl = () => new URLSearchParams(window.location.search).get('data');
+
+// Where residents can read the published files without the token, if anywhere.
+export const getPublicDataUrl = (settings: StorageSettings | null) => {
+  if (settings?.type === 'github') return settings.user && settings.repo ? `https://raw.githubusercontent.com/${settings.user}/${settings.repo}/HEAD` : '';
+  return settings?.type === 'public' ? settings.url : '';
+};
+
+export const getReadOnlyLink = (dataUrl: string) => `${window.location.origin}${window.location.pathname}?data=${encodeURIComponent(dataUrl)}`;
+
+// Links of the form `?checkin&blok=<id>` open the check-in page of that block.
+// With `data=<url>` they also work on phones that have no settings of their own.
+export const isCheckInLink = () => new URLSearchParams(window.location.search).has('checkin');
+
+export const getCheckInLink = (blockId: string, dataUrl: string) =>
+  `${window.location.origin}${window.location.pathname}?checkin&blok=${encodeURIComponent(blockId)}${dataUrl ? `&data=${encodeURIComponent(dataUrl)}` : ''}`;
@@ -0,0 +1,11 @@
+import { AttendanceRecord, SyncedFile } from '../types';
+
+export const loadActorName = () => localStorage.getItem('actorName') || '';
+
+// Edits queued offline for the same file go out as one commit listing each.
+export const buildCommitMessage = (path: SyncedFile, messages: string[]) => {
+  if (messages.length <= 1) return messages[0];
+  return `${messages.length} perubahan ${path}\n\n${messages.map(message => `- ${message}`).join('\n')}`;
+};
+
+export const describeRecord = (record: AttendanceRecord) => `Absensi ${record.day} ${record.date}`;
@@ -0,0 +1,38 @@
+import { Block, StorageBackend, SyncedFile } from '../types';
+import { DEFAULT_FILE_CONTENT } from '../constants';
+
+// The list of blocks is shared by the whole RW, so it sits at the repository root.
+export const BLOCKS_PATH = 'blocks.json';
+
+export const DEFAULT_BLOCKS: Block[] = [{ id: 'h', name: 'Blok H', folder: '' }];
+
+export const normalizeBlocks = (content: any): Block[] => Array.isArray(content) && content.length ? content : DEFAULT_BLOCKS;
+
+export const blockPath = (folder: string, path: string) => folder ? `${folder}/${path}` : path;
+
+// Lets the rest of the app keep reading and writing plain file names for the active block.
+export const scopeBackend = (backend: StorageBackend, folder: string): StorageBackend => folder ? {
+  ...backend,
+  getFile: path => backend.getFile(blockPath(folder, path)),
+  updateFile: (path, content, sha, message) => backend.updateFile(blockPath(folder, path), content, sha, message),
+} : backend;
+
+// Blocks added later start with an empty roster rather than Blok H's.
+export const getDefaultContent = (folder: string, path: SyncedFile) => folder && path === 'schedule.json'
+  ? [{ id: 'awal', effectiveFrom: '1970-01-01', rotation: 'tetap', weeks: [{}] }]
+  : DEFAULT_FILE_CONTENT[path];
+
+export const createBlock = (name: string, blocks: Block[]): Block => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'blok';
+  let id = slug;
+  for (let suffix = 2; blocks.some(block => block.id === id || block.folder === id); suffix++) id = `${slug}-${suffix}`;
+  return { id, name, folder: id };
+};
+
+// A `blok` link parameter, as in check-in links, picks the block for this visit.
+export const loadActiveBlockId = () =>
+  new URLSearchParams(window.location.search).get('blok') || localStorage.getItem('activeBlock') || DEFAULT_BLOCKS[0].id;
+
+export const saveActiveBlockId = (id: string) => {
+  localStorage.setItem('activeBlock', id);
+};
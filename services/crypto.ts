@@ -0,0 +1,37 @@
+import { EncryptedSecret, StorageSettings } from '../types';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: 250000, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+export const encryptSecret = async (secret: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// AES-GCM rejects a wrong passphrase because the authentication tag fails.
+export const decryptSecret = async (secret: EncryptedSecret, passphrase: string) => {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt));
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error('Frasa sandi salah.');
+  }
+};
+
+export const hasToken = (settings: StorageSettings): settings is StorageSettings & { token: string } =>
+  (settings.type === 'github' || settings.type === 'rest') && !!settings.token;
@@ -0,0 +1,133 @@
+import { ConnectionCheck, FileCommit, GithubSettings, SyncedFile } from '../types';
+import { DEFAULT_FILE_CONTENT } from '../constants';
+import { blockPath } from './blocks';
+
+const GITHUB_API_BASE = 'https://api.github.com';
+
+// Thrown when the sha we sent is no longer the latest version of the file.
+export class ShaConflictError extends Error {}
+
+// `ref` reads the file as it was at an earlier commit.
+export const getFile = async (settings: GithubSettings, path: string, ref?: string) => {
+  const { user, repo, token } = settings;
+  const response = await fetch(`${GITHUB_API_BASE}/repos/${user}/${repo}/contents/${path}${ref ? `?ref=${ref}` : ''}`, {
+    headers: { Authorization: `token ${token}` },
+  });
+  if (response.status === 404) return null; // File not found
+  if (!response.ok) throw new Error(`Gagal mengambil file ${path}: ${response.statusText}`);
+  const data = await response.json();
+  
+  // Guard against undefined content (e.g., for large files) and empty content
+  const decodedContent = atob(data.content || '');
+  if (!decodedContent) {
+    const defaultContent = DEFAULT_FILE_CONTENT[path as SyncedFile] ?? [];
+    return { content: defaultContent, sha: data.sha };
+  }
+  
+  return { content: JSON.parse(decodedContent), sha: data.sha };
+};
+
+export const updateFile = async (settings: GithubSettings, path: string, content: any, sha?: string, message?: string) => {
+  const { user, repo, token } = settings;
+  const contentBase64 = btoa(JSON.stringify(content, null, 2));
+  const body = {
+    message: message || `[WebApp] Update ${path}`,
+    content: contentBase64,
+    ...(sha && { sha }),
+  };
+  const response = await fetch(`${GITHUB_API_BASE}/repos/${user}/${repo}/contents/${path}`, {
+    method: 'PUT',
+    headers: {
+      Authorization: `token ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 409 || response.status === 422) {
+    throw new ShaConflictError(`File ${path} telah diubah oleh pengguna lain.`);
+  }
+  if (!response.ok) throw new Error(`Gagal menyimpan file ${path}: ${response.statusText}`);
+  return await response.json();
+};
+
+export const listCommits = async (settings: GithubSettings, path: string): Promise<FileCommit[]> => {
+  const { user, repo, token } = settings;
+  const response = await fetch(`${GITHUB_API_BASE}/repos/${user}/${repo}/commits?path=${path}&per_page=30`, {
+    headers: { Authorization: `token ${token}` },
+  });
+  if (!response.ok) throw new Error(`Gagal mengambil riwayat ${path}: ${response.statusText}`);
+  const commits = await response.json();
+  return commits.map((commit: any) => ({ sha: commit.sha, message: commit.commit.message, date: commit.commit.author.date }));
+};
+
+// A stale sha makes GitHub refuse the update with 409, but only after it has
+// checked that the token may write. Before any file exists an unreferenced
+// blob, which nothing in the repository points to, is created instead.
+const probeWriteAccess = async (repoUrl: string, headers: { Authorization: string }, existingPath?: string) => {
+  const jsonHeaders = { ...headers, 'Content-Type': 'application/json' };
+  if (existingPath) {
+    const response = await fetch(`${repoUrl}/contents/${existingPath}`, {
+      method: 'PUT',
+      headers: jsonHeaders,
+      body: JSON.stringify({ message: 'Tes izin menulis', content: '', sha: '0'.repeat(40) }),
+    });
+    return response.status === 409 || response.status === 422;
+  }
+  const response = await fetch(`${repoUrl}/git/blobs`, {
+    method: 'POST',
+    headers: jsonHeaders,
+    body: JSON.stringify({ content: '', encoding: 'utf-8' }),
+  });
+  return response.ok;
+};
+
+// Checks token, repository access and write permission separately so the
+// settings dialog can say exactly what is wrong. Nothing visible is written to the repository.
+export const testGithubConnection = async (settings: GithubSettings, folder = ''): Promise<ConnectionCheck[]> => {
+  const { user, repo, token } = settings;
+  const headers = { Authorization: `token ${token}` };
+  const repoUrl = `${GITHUB_API_BASE}/repos/${user}/${repo}`;
+
+  const repoResponse = await fetch(repoUrl, { headers });
+  if (repoResponse.status === 401) {
+    return [{ label: 'Token', status: 'error', message: 'Token tidak valid atau sudah kedaluwarsa.' }];
+  }
+  if (repoResponse.status === 403) {
+    return [{ label: 'Token', status: 'error', message: `Akses ditolak GitHub: ${(await repoResponse.json()).message}` }];
+  }
+  if (repoResponse.status === 404) {
+    return [
+      { label: 'Token', status: 'ok', message: 'Token diterima.' },
+      { label: 'Repositori', status: 'error', message: `Repositori ${user}/${repo} tidak ditemukan, atau token tidak diberi akses ke repositori ini.` },
+    ];
+  }
+  if (!repoResponse.ok) throw new Error(`GitHub menjawab ${repoResponse.status} ${repoResponse.statusText}`);
+  const checks: ConnectionCheck[] = [
+    { label: 'Token', status: 'ok', message: 'Token diterima.' },
+    { label: 'Repositori', status: 'ok', message: `${user}/${repo} dapat dibaca.` },
+  ];
+
+  const fileChecks: ConnectionCheck[] = [];
+  let existingPath: string | undefined;
+  for (const path of Object.keys(DEFAULT_FILE_CONTENT).map(file => blockPath(folder, file))) {
+    const fileResponse = await fetch(`${repoUrl}/contents/${path}`, { headers });
+    if (fileResponse.ok) existingPath ??= path;
+    fileChecks.push(fileResponse.ok
+      ? { label: path, status: 'ok', message: 'Ditemukan.' }
+      : fileResponse.status === 404
+        ? { label: path, status: 'warning', message: 'Belum ada, akan dibuat saat sinkronisasi pertama.' }
+        : { label: path, status: 'error', message: `Gagal dibaca: ${fileResponse.status} ${fileResponse.statusText}` });
+  }
+
+  // Classic tokens list their scopes; the repository's `permissions` only
+  // describe the account, so the token itself has to attempt a write.
+  const { private: isPrivate } = await repoResponse.json();
+  const scopes = repoResponse.headers.get('X-OAuth-Scopes')?.split(',').map(scope => scope.trim());
+  const hasScope = !scopes || scopes.includes('repo') || (!isPrivate && scopes.includes('public_repo'));
+  checks.push(hasScope && await probeWriteAccess(repoUrl, headers, existingPath)
+    ? { label: 'Izin menulis', status: 'ok', message: 'Token boleh menyimpan perubahan.' }
+    : { label: 'Izin menulis', status: 'error', message: 'Token tidak punya izin menulis. Beri izin "Contents: Read and write" (token fine-grained) atau scope "repo" (token classic).' });
+
+  checks.push(...fileChecks);
+  return checks;
+};
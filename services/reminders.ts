@@ -0,0 +1,75 @@
+import { AttendanceRecord, NightException, ReminderSettings, Resident, ScheduledReminder, ScheduleVersion } from '../types';
+import { idbGet, idbSet } from './offlineCache';
+import { resolveNightOfficers } from '../utils/nightExceptions';
+import { getOfficerName } from '../utils/residents';
+import { addDays, getShiftDayLabel, getToday, getZonedInstant } from '../utils/shiftDate';
+
+const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  eveningTime: '20:00',
+  residentId: '',
+  morningNudge: false,
+  morningTime: '07:00',
+};
+
+export const loadReminderSettings = (): ReminderSettings => {
+  const saved = localStorage.getItem('reminderSettings');
+  return saved ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_REMINDER_SETTINGS;
+};
+
+// Evening reminders and morning nudges for last night and the next few nights.
+// Times are read on the block's clock (see utils/shiftDate.ts).
+export const buildReminders = (schedules: ScheduleVersion[], exceptions: NightException[], residents: Resident[], settings: ReminderSettings, recordsKey = 'data.json') => {
+  const reminders: ScheduledReminder[] = [];
+  if (!settings.enabled && !settings.morningNudge) return reminders;
+  const today = getToday();
+  for (let offset = -1; offset < 3; offset++) {
+    const date = addDays(today, offset);
+    const officers = resolveNightOfficers(schedules, exceptions, date);
+    if (!officers.length) continue;
+    if (settings.enabled && offset >= 0 && (!settings.residentId || officers.includes(settings.residentId))) {
+      reminders.push({
+        id: `malam-${date}`,
+        at: getZonedInstant(date, settings.eveningTime).toISOString(),
+        title: 'Jadwal ronda malam ini',
+        body: `${getShiftDayLabel(date)}: ${officers.map(ref => getOfficerName(residents, ref)).join(', ')}`,
+      });
+    }
+    if (settings.morningNudge) {
+      reminders.push({
+        id: `pagi-${date}`,
+        at: getZonedInstant(addDays(date, 1), settings.morningTime).toISOString(),
+        title: 'Absensi ronda belum diisi',
+        body: `Absensi ${getShiftDayLabel(date)} (${date}) belum dikirim.`,
+        unlessRecordFor: date,
+        recordsKey,
+      });
+    }
+  }
+  return reminders;
+};
+
+// Reminders older than this are dropped instead of shown late.
+const REMINDER_GRACE_MS = 3 * 60 * 60 * 1000;
+
+// public/sw.js keeps a plain-JS copy of this for periodic sync, since it is
+// not bundled. Any change here must be made there too.
+export const fireDueReminders = async (registration: ServiceWorkerRegistration) => {
+  const reminders = (await idbGet<ScheduledReminder[]>('reminders')) || [];
+  const recordsByKey: { [key: string]: AttendanceRecord[] } = {};
+  const now = Date.now();
+  let changed = false;
+  for (const reminder of reminders) {
+    const at = new Date(reminder.at).getTime();
+    if (reminder.shown || at > now || now - at > REMINDER_GRACE_MS) continue;
+    reminder.shown = true;
+    changed = true;
+    if (reminder.unlessRecordFor) {
+      const key = reminder.recordsKey ?? 'data.json';
+      recordsByKey[key] ??= (await idbGet<AttendanceRecord[]>(key)) || [];
+      if (recordsByKey[key].some(record => record.date === reminder.unlessRecordFor)) continue;
+    }
+    await registration.showNotification(reminder.title, { body: reminder.body, tag: reminder.id, icon: 'icon.svg' });
+  }
+  if (changed) await idbSet('reminders', reminders);
+};
@@ -0,0 +1,119 @@
+import { ConnectionCheck, GithubSettings, PublicSettings, RestSettings, StorageBackend, StorageSettings } from '../types';
+import { DEFAULT_FILE_CONTENT } from '../constants';
+import { blockPath } from './blocks';
+import { getFile, ShaConflictError, testGithubConnection, updateFile } from './github';
+
+const createGithubBackend = (settings: GithubSettings): StorageBackend => ({
+  remote: true,
+  getFile: path => getFile(settings, path),
+  updateFile: async (path, content, sha, message) => {
+    const result = await updateFile(settings, path, content, sha, message);
+    return { sha: result.content.sha };
+  },
+});
+
+// Keeps everything in this browser only, for blocks without any server.
+const LOCAL_STORAGE_PREFIX = 'ronda:';
+
+const createLocalBackend = (): StorageBackend => ({
+  remote: false,
+  getFile: async path => {
+    const saved = localStorage.getItem(LOCAL_STORAGE_PREFIX + path);
+    return saved ? JSON.parse(saved) : null;
+  },
+  updateFile: async (path, content, sha) => {
+    const saved = localStorage.getItem(LOCAL_STORAGE_PREFIX + path);
+    const currentSha = saved ? JSON.parse(saved).sha : undefined;
+    if (currentSha !== sha) throw new ShaConflictError(`File ${path} telah diubah oleh pengguna lain.`);
+    const newSha = new Date().toISOString();
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + path, JSON.stringify({ content, sha: newSha }));
+    return { sha: newSha };
+  },
+});
+
+// Generic REST endpoint: GET/PUT `${url}/${path}` with a JSON body, using the
+// ETag header as version and If-Match for optimistic concurrency.
+const createRestBackend = (settings: RestSettings): StorageBackend => {
+  const baseUrl = settings.url.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = settings.token ? { Authorization: `Bearer ${settings.token}` } : {};
+  return {
+    remote: true,
+    getFile: async path => {
+      const response = await fetch(`${baseUrl}/${path}`, { headers: authHeaders });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Gagal mengambil file ${path}: ${response.statusText}`);
+      return { content: await response.json(), sha: response.headers.get('ETag') || undefined };
+    },
+    updateFile: async (path, content, sha) => {
+      const response = await fetch(`${baseUrl}/${path}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+          ...(sha ? { 'If-Match': sha } : { 'If-None-Match': '*' }),
+        },
+        body: JSON.stringify(content, null, 2),
+      });
+      if (response.status === 409 || response.status === 412) {
+        throw new ShaConflictError(`File ${path} telah diubah oleh pengguna lain.`);
+      }
+      if (!response.ok) throw new Error(`Gagal menyimpan file ${path}: ${response.statusText}`);
+      return { sha: response.headers.get('ETag') || undefined };
+    },
+  };
+};
+
+const createPublicBackend = (settings: PublicSettings): StorageBackend => {
+  const baseUrl = settings.url.replace(/\/+$/, '');
+  return {
+    remote: true,
+    readOnly: true,
+    getFile: async path => {
+      const response = await fetch(`${baseUrl}/${path}`, { cache: 'no-cache' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Gagal mengambil file ${path}: ${response.statusText}`);
+      return { content: await response.json() };
+    },
+    updateFile: async () => {
+      throw new Error('Mode baca saja: perubahan tidak dapat disimpan.');
+    },
+  };
+};
+
+export const createStorageBackend = (settings: StorageSettings): StorageBackend => {
+  switch (settings.type) {
+    case 'github': return createGithubBackend(settings);
+    case 'local': return createLocalBackend();
+    case 'rest': return createRestBackend(settings);
+    case 'public': return createPublicBackend(settings);
+  }
+};
+
+// Backends without a dedicated check are tested by reading every file of the block.
+export const testConnection = async (settings: StorageSettings, folder = ''): Promise<ConnectionCheck[]> => {
+  if (settings.type === 'github') return testGithubConnection(settings, folder);
+  const backend = createStorageBackend(settings);
+  const checks: ConnectionCheck[] = [];
+  for (const path of Object.keys(DEFAULT_FILE_CONTENT).map(file => blockPath(folder, file))) {
+    try {
+      const file = await backend.getFile(path);
+      checks.push(file
+        ? { label: path, status: 'ok', message: 'Ditemukan.' }
+        : { label: path, status: 'warning', message: backend.readOnly ? 'Tidak ditemukan.' : 'Belum ada, akan dibuat saat sinkronisasi pertama.' });
+    } catch (error) {
+      checks.push({ label: path, status: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return checks;
+};
+
+// Settings saved before backends were selectable only held GitHub details.
+export const loadStorageSettings = (): StorageSettings | null => {
+  const savedSettings = localStorage.getItem('storageSettings');
+  if (savedSettings) return JSON.parse(savedSettings);
+  const legacySettings = localStorage.getItem('githubSettings');
+  return legacySettings ? { type: 'github', ...JSON.parse(legacySettings) } : null;
+};
+
+// fetch() rejects with a TypeError when the request never reached the server.
+export const isNetworkError = (error: unknown) => error instanceof TypeError || !navigator.onLine;
@@ -0,0 +1,60 @@
+import { Submission } from '../types';
+
+// Residents without write access send check-ins, shift requests and answers to
+// swaps to the coordinators as a link over WhatsApp, so no phone needs the
+// storage token. Nothing in the link is trusted: it is only saved once a
+// coordinator or admin opens it, sees that it came from the resident's own
+// number, and accepts it.
+
+const encodeSubmission = (submission: Submission) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(submission))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeSubmission = (value: string): unknown => {
+  const bytes = Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+const isSubmission = (value: any): value is Submission => {
+  if (value?.kind === 'checkin') {
+    const checkIn = value.checkIn;
+    return typeof checkIn?.id === 'string' && typeof checkIn.date === 'string' && typeof checkIn.residentId === 'string' && typeof checkIn.arrivedAt === 'string';
+  }
+  if (value?.kind === 'permohonan') {
+    const request = value.request;
+    return typeof request?.id === 'string' && typeof request.date === 'string' && typeof request.residentId === 'string' && typeof request.reason === 'string'
+      && typeof request.createdAt === 'string' && ['undefined', 'string'].includes(typeof request.returnDate)
+      && (request.type === 'ijin' || (request.type === 'tukar' && typeof request.swapWithId === 'string'));
+  }
+  if (value?.kind === 'tanggapan') {
+    return typeof value.requestId === 'string' && typeof value.residentId === 'string' && (value.status === 'diterima' || value.status === 'ditolak');
+  }
+  return false;
+};
+
+export const getSubmissionLink = (submission: Submission, blockId: string) =>
+  `${window.location.origin}${window.location.pathname}?kiriman=${encodeSubmission(submission)}&blok=${encodeURIComponent(blockId)}`;
+
+// Links of the form `?kiriman=<payload>&blok=<id>` carry one submission.
+export const getSharedSubmission = (): Submission | null => {
+  const value = new URLSearchParams(window.location.search).get('kiriman');
+  if (!value) return null;
+  try {
+    const submission = decodeSubmission(value);
+    return isSubmission(submission) ? submission : null;
+  } catch (error) {
+    console.error('Error reading submission link', error);
+    return null;
+  }
+};
+
+// Drops the submission from the address bar so a reload does not offer it again.
+export const clearSharedSubmission = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('kiriman');
+  window.history.replaceState(null, '', url);
+};
+
+// Leaves the recipient open so the resident can pick the coordinator or the block's group.
+export const getSubmissionWhatsAppUrl = (submission: Submission, blockId: string, message: string) =>
+  `https://wa.me/?text=${encodeURIComponent(`${message}\n${getSubmissionLink(submission, blockId)}`)}`;
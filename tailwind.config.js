@@ -0,0 +1,14 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: [
+    './index.html',
+    './*.tsx',
+    './components/**/*.{ts,tsx}',
+    './services/**/*.ts',
+    './utils/**/*.ts',
+  ],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
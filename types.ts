@@ -1,20 +1,328 @@
-
 export enum AttendanceStatus {
   Hadir = 'Hadir',
   Ijin = 'Ijin',
   Alpa = 'Alpa',
+  Diganti = 'Diganti',
 }
 
 export interface OfficerAttendance {
-  name: string;
+  residentId?: string; // Absent for guests and records made before the registry
+  name: string; // Display name at the time of the patrol
   status: AttendanceStatus;
+  replacedBy?: string; // Who actually patrolled when status is Diganti
+  replacedById?: string;
+  nonScheduled?: boolean; // Volunteer who joined without being on the schedule
+  arrivedAt?: string; // From the officer's own check-in, ISO timestamps
+  departedAt?: string;
+  reportedDistance?: number; // Meters from the pos ronda, as the officer's own phone reported it
+}
+
+export enum IncidentCategory {
+  OrangMencurigakan = 'Orang mencurigakan',
+  GerbangTerbuka = 'Gerbang terbuka',
+  LampuMati = 'Lampu mati',
+  Pencurian = 'Pencurian',
+  PotensiKebakaran = 'Potensi kebakaran',
+  Lainnya = 'Lainnya',
+}
+
+export enum FollowUpStatus {
+  Baru = 'Baru',
+  Ditindaklanjuti = 'Ditindaklanjuti',
+  Selesai = 'Selesai',
+}
+
+export interface Incident {
+  id: string;
+  time: string; // HH:MM during the patrol night
+  category: IncidentCategory;
+  location: string; // House number or place, e.g. "H12" or "Gerbang utara"
+  description: string;
+  followUp: FollowUpStatus;
 }
 
 export interface AttendanceRecord {
-  id: string; // Unique ID for each record
-  date: string; // ISO date string (YYYY-MM-DD)
-  day: string; // Indonesian day name
+  id: string;
+  date: string;
+  day: string;
   officers: OfficerAttendance[];
   notes: string;
   collection: number;
+  incidents?: Incident[];
+}
+
+export interface Resident {
+  id: string;
+  name: string;
+  houseNumber: string;
+  phone: string;
+  active: boolean;
+  // Days of the week (0 = Minggu) the roster generator favours or avoids.
+  preferredDays?: number[];
+  blockedDays?: number[];
+}
+
+// Day of week -> resident IDs. Entries that match no resident are treated as
+// plain names from before the registry existed.
+export interface Schedule {
+  [key: number]: string[];
+}
+
+// How the weekly rosters of a version map onto dates:
+// - tetap: the same roster every week
+// - ab: two rosters alternating week A / week B
+// - geser: one roster whose groups move one day later every week
+export type RotationPattern = 'tetap' | 'ab' | 'geser';
+
+// A night that differs from the schedule, e.g. Lebaran or 17 Agustus:
+// - batal: no patrol, so nobody is Alpa and no record is expected
+// - tambah: `officers` patrol on top of the roster
+// - ganti: `officers` patrol instead of the roster
+export type NightExceptionType = 'batal' | 'tambah' | 'ganti';
+
+export interface NightException {
+  id: string;
+  date: string;
+  type: NightExceptionType;
+  officers: string[]; // Resident IDs; empty when batal
+  reason: string;
+}
+
+// A roster that applies from `effectiveFrom` until the next version starts, so
+// past nights keep the officers that were scheduled at the time.
+export interface ScheduleVersion {
+  id: string;
+  effectiveFrom: string;
+  rotation: RotationPattern;
+  weeks: Schedule[];
+}
+
+export interface OfficerStats {
+  id: string;
+  name: string;
+  hadir: number;
+  ijin: number;
+  alpa: number;
+  diganti: number;
+  extra: number; // Nights covered as a replacement or volunteer
+  total: number; // Scheduled nights
+  percentage: number;
+  longestAlpaStreak: number;
+}
+
+// One block's month, for comparing blocks across the RW.
+export interface MonthSummary {
+  nights: number; // Nights with a record
+  hadir: number;
+  ijin: number;
+  alpa: number;
+  diganti: number;
+  total: number; // Scheduled officer-nights
+  percentage: number;
+  collection: number;
+}
+
+export enum CashEntryType {
+  Pemasukan = 'Pemasukan',
+  Pengeluaran = 'Pengeluaran',
+}
+
+export interface CashEntry {
+  id: string;
+  date: string;
+  type: CashEntryType;
+  description: string;
+  amount: number;
+  // Fine payments only: the officer, each fine settled with what it cost at the
+  // time, and the part covered by the officer's credit instead of `amount`.
+  officerKey?: string;
+  fines?: { id: string; amount: number }[];
+  creditUsed?: number;
+}
+
+export interface FineRules {
+  amountPerAlpa: number;
+  escalateAfter: number; // Alpa per month charged the normal amount; 0 turns escalation off
+  escalatedAmount: number;
+  exemptOfficers: string[]; // Resident IDs, or names for officers not in the registry
+}
+
+export interface FineSettings {
+  rules: FineRules;
+  waivedFineIds: string[];
+}
+
+// One Alpa that costs a fine. `id` is `${record.id}:${officerKey}`.
+export interface Fine {
+  id: string;
+  officerKey: string;
+  name: string;
+  date: string;
+  amount: number;
+  escalated: boolean;
+}
+
+export interface FineBalance {
+  officerKey: string;
+  name: string;
+  total: number;
+  paid: number;
+  waived: number;
+  credit: number; // Paid for fines that were later corrected away and not used since
+  outstanding: Fine[];
+}
+
+export type SyncedFile = 'data.json' | 'schedule.json' | 'kas.json' | 'residents.json' | 'denda.json' | 'checkins.json' | 'permohonan.json' | 'pengecualian.json';
+
+// Where officers check in. Without it check-ins are still recorded, just not verified.
+export interface PosRonda {
+  latitude: number;
+  longitude: number;
+  radius: number; // Meters
+}
+
+// An officer checking themselves in during the shift, before the night has a
+// record. `id` is `${date}:${residentId}`.
+export interface CheckIn {
+  id: string;
+  date: string; // Shift date
+  residentId: string;
+  arrivedAt: string;
+  departedAt?: string;
+  distance?: number; // Meters from the pos at arrival, as reported by the officer's phone
+}
+
+export interface CheckInLog {
+  pos: PosRonda | null;
+  checkIns: CheckIn[];
+}
+
+// An ijin goes straight to an admin. A swap first waits for the other
+// resident to accept (diterima), then for an admin.
+export type ShiftRequestStatus = 'menunggu' | 'diterima' | 'disetujui' | 'ditolak';
+
+export interface ShiftRequest {
+  id: string;
+  type: 'ijin' | 'tukar';
+  date: string; // Shift date the requester is scheduled for
+  residentId: string;
+  swapWithId?: string; // Patrols `date` instead of the requester
+  returnDate?: string; // Night of the other resident that the requester takes in return
+  reason: string;
+  status: ShiftRequestStatus;
+  createdAt: string;
+  decidedBy?: string; // Admin who approved or rejected
+}
+
+// Sent over WhatsApp by a resident without write access, and saved only once
+// a coordinator or admin opens the link and accepts it. A `tanggapan` is the
+// swap partner's answer, so it has to come from the partner's own number.
+export type Submission =
+  | { kind: 'checkin'; checkIn: CheckIn }
+  | { kind: 'permohonan'; request: ShiftRequest }
+  | { kind: 'tanggapan'; requestId: string; residentId: string; status: 'diterima' | 'ditolak' };
+
+// A block (RT) sharing this deployment. Its synced files live under `folder`
+// in the repository; '' is the root, where Blok H's files were kept before
+// there were several blocks.
+export interface Block {
+  id: string;
+  name: string;
+  folder: string;
+  // The block's clock for shift dates (see utils/shiftDate.ts); unset means WIB with an 18:00 cutoff.
+  timeZone?: string;
+  cutoffHour?: number;
+}
+
+// A file with local changes that have not reached the storage backend yet. Several offline
+// edits to the same file collapse into one entry with the original `base`.
+export interface OutboxEntry {
+  path: SyncedFile;
+  base: any;
+  local: any;
+  changes: number;
+  messages?: string[]; // Summaries of the queued edits, used as the commit message
+}
+
+// Viewers only look; coordinators record the night's attendance and cash;
+// admins alone change the schedule, the resident registry and the settings.
+export type Role = 'viewer' | 'coordinator' | 'admin';
+
+// PINs are kept as SHA-256 hashes on the device. Without an admin PIN the
+// device is unlocked and everyone is admin, as before roles existed.
+export interface AccessSettings {
+  adminPinHash?: string;
+  coordinatorPinHash?: string;
+}
+
+// AES-GCM ciphertext with the PBKDF2 salt used to derive its key, all base64.
+export interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// When saved, `token` is emptied and only `encryptedToken` is kept.
+export interface GithubSettings {
+  user: string;
+  repo: string;
+  token: string;
+  encryptedToken?: EncryptedSecret;
+}
+
+export interface RestSettings {
+  url: string;
+  token: string;
+  encryptedToken?: EncryptedSecret;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  eveningTime: string; // HH:MM
+  residentId: string; // Only remind on this resident's nights; empty for every night
+  morningNudge: boolean; // Tell the coordinator when last night's record is missing
+  morningTime: string;
+}
+
+// Stored in IndexedDB for the service worker, which has no schedule helpers.
+export interface ScheduledReminder {
+  id: string;
+  at: string;
+  title: string;
+  body: string;
+  unlessRecordFor?: string; // Skipped when a record for this date exists by then
+  recordsKey?: string; // IndexedDB key of the block's data.json; 'data.json' when missing
+  shown?: boolean;
+}
+
+export interface FileCommit {
+  sha: string;
+  message: string;
+  date: string;
+}
+
+export interface ConnectionCheck {
+  label: string;
+  status: 'ok' | 'warning' | 'error';
+  message: string;
+}
+
+// Published copy of the JSON files, e.g. raw.githubusercontent.com. Needs no token.
+export interface PublicSettings {
+  url: string;
+}
+
+export type StorageSettings =
+  | ({ type: 'github' } & GithubSettings)
+  | { type: 'local' }
+  | ({ type: 'rest' } & RestSettings)
+  | ({ type: 'public' } & PublicSettings);
+
+// Every backend stores whole JSON files by path. `sha` is an opaque version
+// tag; a write with a stale one must fail with ShaConflictError.
+export interface StorageBackend {
+  remote: boolean;
+  readOnly?: boolean;
+  getFile: (path: string) => Promise<{ content: any; sha?: string } | null>;
+  updateFile: (path: string, content: any, sha?: string, message?: string) => Promise<{ sha?: string }>;
 }
@@ -0,0 +1,52 @@
+import { AttendanceRecord, CashEntry, CashEntryType } from '../types';
+import { parseDateString, toDateString } from './dates';
+
+export type LedgerPeriod = 'harian' | 'mingguan' | 'bulanan';
+
+interface LedgerRow {
+  key: string;
+  label: string;
+  income: number;
+  expense: number;
+  balance: number;
+}
+
+const getPeriodKey = (dateString: string, period: LedgerPeriod) => {
+  if (period === 'harian') return dateString;
+  if (period === 'bulanan') return dateString.slice(0, 7);
+  // Weeks start on Monday
+  const date = parseDateString(dateString);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toDateString(date);
+};
+
+const getPeriodLabel = (key: string, period: LedgerPeriod) => {
+  if (period === 'bulanan') return parseDateString(`${key}-01`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+  const label = parseDateString(key).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+  return period === 'mingguan' ? `Minggu mulai ${label}` : label;
+};
+
+// Prelek collections count as income; manual kas.json entries are added on top.
+export const buildLedger = (records: AttendanceRecord[], entries: CashEntry[], period: LedgerPeriod): LedgerRow[] => {
+  const totals: { [key: string]: { income: number; expense: number } } = {};
+  const addAmount = (dateString: string, income: number, expense: number) => {
+    const key = getPeriodKey(dateString, period);
+    if (!totals[key]) totals[key] = { income: 0, expense: 0 };
+    totals[key].income += income;
+    totals[key].expense += expense;
+  };
+
+  records.forEach(record => addAmount(record.date, record.collection, 0));
+  entries.forEach(entry => {
+    if (entry.type === CashEntryType.Pemasukan) addAmount(entry.date, entry.amount, 0);
+    else addAmount(entry.date, 0, entry.amount);
+  });
+
+  let balance = 0;
+  return Object.keys(totals).sort().map(key => {
+    balance += totals[key].income - totals[key].expense;
+    return { key, label: getPeriodLabel(key, period), ...totals[key], balance };
+  });
+};
+
+export const formatRupiah = (amount: number) => amount.toLocaleString('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 });
@@ -0,0 +1,57 @@
+import { CheckIn, CheckInLog, PosRonda } from '../types';
+import { addDays, getToday } from './shiftDate';
+
+export const normalizeCheckInLog = (content: any): CheckInLog => ({
+  pos: content?.pos ?? null,
+  checkIns: Array.isArray(content?.checkIns) ? content.checkIns : [],
+});
+
+export const getCheckInId = (date: string, residentId: string) => `${date}:${residentId}`;
+
+// The check-in this phone sent for review, so it can be shown and followed up
+// with the departure before a coordinator accepts it.
+export const loadSentCheckIn = (): CheckIn | null => {
+  const saved = localStorage.getItem('sentCheckIn');
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const saveSentCheckIn = (checkIn: CheckIn) => {
+  localStorage.setItem('sentCheckIn', JSON.stringify(checkIn));
+};
+
+// Check-ins only matter until the coordinator records the night, so old ones
+// are dropped whenever a new one is saved.
+const CHECK_IN_RETENTION_DAYS = 30;
+
+export const pruneCheckIns = (checkIns: CheckIn[]) => {
+  const oldest = addDays(getToday(), -CHECK_IN_RETENTION_DAYS);
+  return checkIns.filter(checkIn => checkIn.date >= oldest);
+};
+
+// Great-circle distance in meters.
+export const getDistanceMeters = (from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(deltaLatitude / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const getCurrentPosition = () => new Promise<GeolocationPosition>((resolve, reject) => {
+  if (!navigator.geolocation) {
+    reject(new Error('Perangkat ini tidak mendukung lokasi.'));
+    return;
+  }
+  navigator.geolocation.getCurrentPosition(resolve, error => reject(new Error(
+    error.code === error.PERMISSION_DENIED ? 'Izin lokasi ditolak. Aktifkan lokasi untuk check-in.' : 'Lokasi tidak dapat ditentukan. Coba lagi di tempat terbuka.',
+  )), { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 });
+});
+
+// Resolves to the distance from the pos, or rejects when the officer is outside its radius.
+export const verifyAtPos = async (pos: PosRonda) => {
+  const position = await getCurrentPosition();
+  const distance = Math.round(getDistanceMeters(position.coords, pos));
+  if (distance > pos.radius) throw new Error(`Anda berada ${distance} m dari pos ronda (batas ${pos.radius} m).`);
+  return distance;
+};
@@ -0,0 +1,17 @@
+import { NAMA_HARI } from '../constants';
+
+export const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse YYYY-MM-DD as a local date so getDay() matches the calendar date.
+export const parseDateString = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getShiftLabel = (dayIndex: number) => `${NAMA_HARI[dayIndex]} malam ${NAMA_HARI[(dayIndex + 1) % 7]}`;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
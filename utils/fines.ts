@@ -0,0 +1,101 @@
+import { AttendanceRecord, AttendanceStatus, CashEntry, Fine, FineBalance, FineRules, FineSettings, Resident } from '../types';
+import { DEFAULT_FINE_SETTINGS } from '../constants';
+import { getOfficerName } from './residents';
+
+export const normalizeFineSettings = (content: any): FineSettings => ({
+  rules: { ...DEFAULT_FINE_SETTINGS.rules, ...content?.rules },
+  waivedFineIds: Array.isArray(content?.waivedFineIds) ? content.waivedFineIds : [],
+});
+
+// Every scheduled Alpa is a fine. Within a calendar month, an officer's Alpa
+// beyond `escalateAfter` costs the escalated amount.
+export const computeFines = (records: AttendanceRecord[], rules: FineRules): Fine[] => {
+  const fines: Fine[] = [];
+  const monthlyCounts: { [key: string]: number } = {};
+  [...records].sort((a, b) => a.date.localeCompare(b.date)).forEach(record => {
+    record.officers.forEach(officer => {
+      if (officer.status !== AttendanceStatus.Alpa || officer.nonScheduled) return;
+      const officerKey = officer.residentId ?? officer.name;
+      if (rules.exemptOfficers.includes(officerKey)) return;
+      const monthKey = `${officerKey}|${record.date.slice(0, 7)}`;
+      monthlyCounts[monthKey] = (monthlyCounts[monthKey] || 0) + 1;
+      const escalated = rules.escalateAfter > 0 && monthlyCounts[monthKey] > rules.escalateAfter;
+      const amount = escalated ? rules.escalatedAmount : rules.amountPerAlpa;
+      if (amount <= 0) return;
+      fines.push({ id: `${record.id}:${officerKey}`, officerKey, name: officer.name, date: record.date, amount, escalated });
+    });
+  });
+  return fines;
+};
+
+// Linking names to the registry turns an officer's key, and with it the ids of
+// their fines, into the resident ID. Payments, waivers and exemptions are
+// renamed along with the records so settled fines stay settled.
+export const relinkFines = (before: AttendanceRecord[], after: AttendanceRecord[], entries: CashEntry[], settings: FineSettings) => {
+  const fineIds = new Map<string, string>();
+  const officerKeys = new Map<string, string>();
+  const previousRecords = new Map(before.map(record => [record.id, record]));
+  after.forEach(record => {
+    record.officers.forEach((officer, index) => {
+      const previous = previousRecords.get(record.id)?.officers[index];
+      if (!previous) return;
+      const previousKey = previous.residentId ?? previous.name;
+      const officerKey = officer.residentId ?? officer.name;
+      if (previousKey === officerKey) return;
+      officerKeys.set(previousKey, officerKey);
+      fineIds.set(`${record.id}:${previousKey}`, `${record.id}:${officerKey}`);
+    });
+  });
+  const renameFine = (id: string) => fineIds.get(id) ?? id;
+  const settlesRenamed = (entry: CashEntry) => !!entry.fines?.some(fine => fineIds.has(fine.id)) || (!!entry.officerKey && officerKeys.has(entry.officerKey));
+  const touchesSettings = settings.waivedFineIds.some(id => fineIds.has(id)) || settings.rules.exemptOfficers.some(key => officerKeys.has(key));
+  return {
+    entries: entries.some(settlesRenamed) ? entries.map(entry => settlesRenamed(entry) ? {
+      ...entry,
+      ...(entry.officerKey && { officerKey: officerKeys.get(entry.officerKey) ?? entry.officerKey }),
+      ...(entry.fines && { fines: entry.fines.map(fine => ({ ...fine, id: renameFine(fine.id) })) }),
+    } : entry) : entries,
+    settings: touchesSettings ? {
+      rules: { ...settings.rules, exemptOfficers: settings.rules.exemptOfficers.map(key => officerKeys.get(key) ?? key) },
+      waivedFineIds: settings.waivedFineIds.map(renameFine),
+    } : settings,
+  };
+};
+
+// Paid fines count what the cash entry recorded for them, so changing the
+// rules later only affects fines that are still open. Money paid for a fine
+// that no longer exists, such as an Alpa corrected afterwards, stays with the
+// officer as credit towards the next payment.
+export const getFineBalances = (fines: Fine[], entries: CashEntry[], waivedFineIds: string[], residents: Resident[]): FineBalance[] => {
+  const paidAmounts = new Map<string, number>();
+  entries.forEach(entry => entry.fines?.forEach(fine => paidAmounts.set(fine.id, fine.amount)));
+  const currentIds = new Set(fines.map(fine => fine.id));
+  const credits: { [key: string]: number } = {};
+  entries.forEach(entry => {
+    if (!entry.officerKey || !entry.fines) return;
+    const orphaned = entry.fines.filter(fine => !currentIds.has(fine.id)).reduce((sum, fine) => sum + fine.amount, 0);
+    credits[entry.officerKey] = (credits[entry.officerKey] || 0) + orphaned - (entry.creditUsed ?? 0);
+  });
+  const waivedIds = new Set(waivedFineIds);
+  const balances: { [key: string]: FineBalance } = {};
+  const balanceOf = (officerKey: string) => balances[officerKey] ??= {
+    officerKey, name: getOfficerName(residents, officerKey), total: 0, paid: 0, waived: 0, credit: 0, outstanding: [],
+  };
+  Object.entries(credits).forEach(([officerKey, credit]) => {
+    if (credit > 0) balanceOf(officerKey).credit = credit;
+  });
+  fines.forEach(fine => {
+    const balance = balanceOf(fine.officerKey);
+    const paid = paidAmounts.get(fine.id);
+    balance.total += paid ?? fine.amount;
+    if (paid !== undefined) balance.paid += paid;
+    else if (waivedIds.has(fine.id)) balance.waived += fine.amount;
+    else balance.outstanding.push(fine);
+  });
+  return Object.values(balances).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getFinesTotal = (fines: { amount: number }[]) => fines.reduce((sum, fine) => sum + fine.amount, 0);
+
+// What is left to pay once the officer's credit is used up.
+export const getOutstandingAmount = (balance: FineBalance) => Math.max(0, getFinesTotal(balance.outstanding) - balance.credit);
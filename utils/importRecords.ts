@@ -0,0 +1,192 @@
+import { AttendanceRecord, AttendanceStatus, FollowUpStatus, Incident, IncidentCategory, OfficerAttendance, Resident } from '../types';
+import { parseDateString, toDateString } from './dates';
+import { toOfficerAttendance } from './residents';
+import { getShiftDayLabel } from './shiftDate';
+
+export interface ImportPreview {
+  fresh: AttendanceRecord[]; // Dates not in the existing data
+  duplicates: AttendanceRecord[]; // Same date with identical content
+  conflicts: { imported: AttendanceRecord; existing: AttendanceRecord }[];
+  repeated: { entry: number; date: string; firstEntry: number }[]; // Same date earlier in the file
+  invalid: { entry: number; errors: string[] }[];
+}
+
+const isValidDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return toDateString(parseDateString(value)) === value;
+};
+
+// Optional text fields are copied only when they hold text.
+const optionalText = <K extends string>(key: K, value: unknown) =>
+  (typeof value === 'string' && value ? { [key]: value } : {}) as { [key in K]?: string };
+
+// Checks one imported entry against AttendanceRecord, filling optional fields
+// with defaults. Only known fields are copied, so nothing else reaches data.json.
+// Returns the errors when the entry cannot be used.
+const validateRecord = (raw: any): { record?: AttendanceRecord; errors: string[] } => {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') return { errors: ['Bukan objek absensi.'] };
+  if (!isValidDateString(raw.date)) errors.push(`Tanggal "${raw.date}" tidak valid (format YYYY-MM-DD).`);
+  if (!Array.isArray(raw.officers) || !raw.officers.length) errors.push('Daftar petugas kosong atau tidak valid.');
+
+  const statuses = Object.values(AttendanceStatus) as string[];
+  const officers: OfficerAttendance[] = (Array.isArray(raw.officers) ? raw.officers : []).map((officer: any, index: number) => {
+    if (!officer || typeof officer.name !== 'string' || !officer.name.trim()) errors.push(`Petugas ke-${index + 1} tidak punya nama.`);
+    if (!officer || !statuses.includes(officer.status)) errors.push(`Status "${officer?.status}" untuk ${officer?.name ?? `petugas ke-${index + 1}`} tidak dikenal.`);
+    if (officer?.status === AttendanceStatus.Diganti && !officer.replacedBy) errors.push(`${officer.name} berstatus Diganti tanpa nama pengganti.`);
+    return {
+      ...optionalText('residentId', officer?.residentId),
+      name: typeof officer?.name === 'string' ? officer.name.trim() : '',
+      status: officer?.status,
+      ...optionalText('replacedBy', officer?.replacedBy),
+      ...optionalText('replacedById', officer?.replacedById),
+      ...(officer?.nonScheduled === true && { nonScheduled: true }),
+      ...optionalText('arrivedAt', officer?.arrivedAt),
+      ...optionalText('departedAt', officer?.departedAt),
+      ...(typeof officer?.reportedDistance === 'number' && { reportedDistance: officer.reportedDistance }),
+    };
+  });
+
+  const collection = typeof raw.collection === 'string' ? parseInt(raw.collection.replace(/[^0-9]/g, ''), 10) || 0 : raw.collection ?? 0;
+  if (typeof collection !== 'number' || !Number.isFinite(collection) || collection < 0) errors.push('Nilai prelek tidak valid.');
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') errors.push('Keterangan harus berupa teks.');
+  if (raw.incidents !== undefined) {
+    const categories = Object.values(IncidentCategory) as string[];
+    const followUps = Object.values(FollowUpStatus) as string[];
+    if (!Array.isArray(raw.incidents) || raw.incidents.some((incident: any) => !categories.includes(incident?.category) || !followUps.includes(incident?.followUp))) {
+      errors.push('Daftar kejadian tidak valid.');
+    }
+  }
+  if (errors.length) return { errors };
+
+  const incidents: Incident[] | undefined = raw.incidents?.map((incident: any, index: number) => ({
+    id: typeof incident.id === 'string' && incident.id ? incident.id : `${raw.date}-${index + 1}`,
+    time: typeof incident.time === 'string' ? incident.time : '',
+    category: incident.category,
+    location: typeof incident.location === 'string' ? incident.location : '',
+    description: typeof incident.description === 'string' ? incident.description : '',
+    followUp: incident.followUp,
+  }));
+  return {
+    record: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : `impor-${raw.date}`,
+      date: raw.date,
+      day: typeof raw.day === 'string' && raw.day ? raw.day : getShiftDayLabel(raw.date),
+      officers,
+      notes: raw.notes ?? '',
+      collection,
+      ...(incidents && { incidents }),
+    },
+    errors,
+  };
+};
+
+// Imported records are rebuilt field by field, so comparisons must not depend on key order.
+const sortKeys = (value: any): any => Array.isArray(value)
+  ? value.map(sortKeys)
+  : value && typeof value === 'object'
+    ? Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]))
+    : value;
+
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  // Spreadsheets set to Indonesian locale export with semicolons.
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some(value => value.trim())) rows.push(row);
+  return rows;
+};
+
+// Reads the same columns as the monthly CSV export; names within a cell are
+// comma separated and substitutes are written "Nama → Pengganti".
+export const csvRowsToRawRecords = (rows: string[][], residents: Resident[]) => {
+  const [header, ...body] = rows;
+  const columnIndex = (name: string) => header.findIndex(column => column.trim().toLowerCase() === name.toLowerCase());
+  const cellOf = (cells: string[], name: string) => {
+    const index = columnIndex(name);
+    return index >= 0 ? (cells[index] || '').trim() : '';
+  };
+  const splitNames = (value: string) => value.split(',').map(name => name.trim()).filter(Boolean);
+
+  return body.filter(cells => cellOf(cells, 'Tanggal').toLowerCase() !== 'total').map(cells => {
+    const officers: OfficerAttendance[] = [];
+    [AttendanceStatus.Hadir, AttendanceStatus.Ijin, AttendanceStatus.Alpa].forEach(status => {
+      splitNames(cellOf(cells, status)).forEach(name => officers.push(toOfficerAttendance(residents, name, status)));
+    });
+    splitNames(cellOf(cells, 'Diganti')).forEach(entry => {
+      const [name, replacedBy] = entry.split(/\s*(?:→|->)\s*/);
+      officers.push({ ...toOfficerAttendance(residents, name, AttendanceStatus.Diganti), replacedBy });
+    });
+    splitNames(cellOf(cells, 'Tambahan')).forEach(name => {
+      officers.push({ ...toOfficerAttendance(residents, name, AttendanceStatus.Hadir), nonScheduled: true });
+    });
+    return {
+      date: cellOf(cells, 'Tanggal'),
+      day: cellOf(cells, 'Hari'),
+      officers,
+      notes: cellOf(cells, 'Keterangan'),
+      collection: cellOf(cells, 'Prelek'),
+    };
+  });
+};
+
+// Only the first entry of a date is used; later ones are listed as repeated.
+// Ids are kept unique so no two records can be edited or deleted together.
+export const buildImportPreview = (rawEntries: any[], existing: AttendanceRecord[]): ImportPreview => {
+  const preview: ImportPreview = { fresh: [], duplicates: [], conflicts: [], repeated: [], invalid: [] };
+  const withoutId = ({ id, ...rest }: AttendanceRecord) => JSON.stringify(sortKeys(rest));
+  const firstEntryOfDate = new Map<string, number>();
+  const takenIds = new Set(existing.map(record => record.id));
+  const uniqueId = (id: string) => {
+    let unique = id;
+    for (let suffix = 2; takenIds.has(unique); suffix++) unique = `${id}-${suffix}`;
+    takenIds.add(unique);
+    return unique;
+  };
+  rawEntries.forEach((raw, index) => {
+    const { record: validated, errors } = validateRecord(raw);
+    if (!validated) {
+      preview.invalid.push({ entry: index + 1, errors });
+      return;
+    }
+    const firstEntry = firstEntryOfDate.get(validated.date);
+    if (firstEntry) {
+      preview.repeated.push({ entry: index + 1, date: validated.date, firstEntry });
+      return;
+    }
+    firstEntryOfDate.set(validated.date, index + 1);
+    const match = existing.find(other => other.date === validated.date);
+    // Re-importing an export keeps the ids of the records it matches.
+    const record = match?.id === validated.id ? validated : { ...validated, id: uniqueId(validated.id) };
+    if (!match) preview.fresh.push(record);
+    else if (withoutId(match) === withoutId(record)) preview.duplicates.push(record);
+    else preview.conflicts.push({ imported: record, existing: match });
+  });
+  return preview;
+};
@@ -0,0 +1,180 @@
+import { AttendanceRecord, CashEntry, CheckInLog, FineRules, FineSettings, NightException, PosRonda, Resident, ScheduleVersion, ShiftRequest, SyncedFile } from '../types';
+import { NAMA_HARI } from '../constants';
+import { normalizeCheckInLog } from './checkIn';
+import { getShiftLabel } from './dates';
+import { normalizeFineSettings } from './fines';
+import { NIGHT_EXCEPTION_LABELS } from './nightExceptions';
+import { normalizeSchedules, sortSchedules } from './schedule';
+import { REQUEST_STATUS_LABELS } from './shiftRequests';
+
+export interface MergeConflict<T> {
+  key: string;
+  local?: T; // undefined means the item was deleted
+  remote?: T;
+}
+
+export type ConflictChoices = { [key: string]: 'local' | 'remote' };
+
+// The conflict dialog was cancelled, so the change was dropped rather than saved.
+export class SaveCancelledError extends Error {}
+
+export interface MergeStrategy<C, T> {
+  merge: (base: C, local: C, remote: C) => { merged: C; conflicts: MergeConflict<T>[] };
+  resolve: (merged: C, conflicts: MergeConflict<T>[], choices: ConflictChoices) => C;
+  describe: (item: T) => { title: string; details: string };
+}
+
+// Three-way merge: local changes since `base` are replayed on top of `remote`.
+// An item changed differently on both sides becomes a conflict.
+const mergeByKey = <T,>(base: T[], local: T[], remote: T[], getKey: (item: T) => string) => {
+  const toMap = (items: T[]) => new Map(items.map(item => [getKey(item), item]));
+  const baseMap = toMap(base);
+  const localMap = toMap(local);
+  const remoteMap = toMap(remote);
+  const isSame = (a?: T, b?: T) => JSON.stringify(a) === JSON.stringify(b);
+
+  const merged = new Map(remoteMap);
+  const conflicts: MergeConflict<T>[] = [];
+  new Set([...baseMap.keys(), ...localMap.keys()]).forEach(key => {
+    const baseItem = baseMap.get(key);
+    const localItem = localMap.get(key);
+    const remoteItem = remoteMap.get(key);
+    if (isSame(localItem, baseItem)) return;
+    if (isSame(remoteItem, baseItem) || isSame(remoteItem, localItem)) {
+      if (localItem === undefined) merged.delete(key);
+      else merged.set(key, localItem);
+      return;
+    }
+    conflicts.push({ key, local: localItem, remote: remoteItem });
+  });
+  return { merged: Array.from(merged.values()), conflicts };
+};
+
+const applyChoices = <T,>(merged: T[], conflicts: MergeConflict<T>[], choices: ConflictChoices, getKey: (item: T) => string) => {
+  const involvedKeys = new Set<string>();
+  const chosen: T[] = [];
+  conflicts.forEach(conflict => {
+    [conflict.local, conflict.remote].forEach(item => item !== undefined && involvedKeys.add(getKey(item)));
+    const item = choices[conflict.key] === 'remote' ? conflict.remote : conflict.local;
+    if (item !== undefined) chosen.push(item);
+  });
+  return [...merged.filter(item => !involvedKeys.has(getKey(item))), ...chosen];
+};
+
+const RECORDS_MERGE: MergeStrategy<AttendanceRecord[], AttendanceRecord> = {
+  merge: (base, local, remote) => {
+    const result = mergeByKey(base, local, remote, record => record.id);
+    // Two coordinators submitting the same night create different ids for one date.
+    const baseIds = new Set(base.map(record => record.id));
+    local.filter(record => !baseIds.has(record.id)).forEach(record => {
+      const rival = remote.find(other => other.date === record.date && other.id !== record.id && !baseIds.has(other.id));
+      if (!rival) return;
+      result.merged = result.merged.filter(item => item.id !== record.id && item.id !== rival.id);
+      result.conflicts.push({ key: record.date, local: record, remote: rival });
+    });
+    return result;
+  },
+  resolve: (merged, conflicts, choices) => applyChoices(merged, conflicts, choices, record => record.id),
+  describe: record => ({
+    title: `${record.day} (${record.date})`,
+    details: [
+      ...record.officers.map(officer => `${officer.name}: ${officer.status}${officer.replacedBy ? ` → ${officer.replacedBy}` : ''}`),
+      `Prelek: ${record.collection.toLocaleString('id-ID')}`,
+      record.notes && `Keterangan: ${record.notes}`,
+      ...(record.incidents ?? []).map(incident => `Kejadian ${incident.time} ${incident.category} (${incident.location}): ${incident.followUp}`),
+    ].filter(Boolean).join('\n'),
+  }),
+};
+
+const SCHEDULE_MERGE: MergeStrategy<ScheduleVersion[], ScheduleVersion> = {
+  merge: (base, local, remote) => mergeByKey(normalizeSchedules(base), normalizeSchedules(local), normalizeSchedules(remote), version => version.id),
+  resolve: (merged, conflicts, choices) => sortSchedules(applyChoices(merged, conflicts, choices, version => version.id)),
+  describe: version => ({
+    title: `Jadwal mulai ${version.effectiveFrom}`,
+    details: Object.keys(NAMA_HARI).map(day => `${getShiftLabel(Number(day))}: ${(version.weeks[0][Number(day)] || []).join(', ')}`).join('\n'),
+  }),
+};
+
+const CASH_MERGE: MergeStrategy<CashEntry[], CashEntry> = {
+  merge: (base, local, remote) => mergeByKey(base, local, remote, entry => entry.id),
+  resolve: (merged, conflicts, choices) => applyChoices(merged, conflicts, choices, entry => entry.id),
+  describe: entry => ({ title: `${entry.description} (${entry.date})`, details: `${entry.type}: ${entry.amount.toLocaleString('id-ID')}` }),
+};
+
+const RESIDENTS_MERGE: MergeStrategy<Resident[], Resident> = {
+  merge: (base, local, remote) => mergeByKey(base, local, remote, resident => resident.id),
+  resolve: (merged, conflicts, choices) => applyChoices(merged, conflicts, choices, resident => resident.id),
+  describe: resident => ({
+    title: resident.name,
+    details: [`Rumah: ${resident.houseNumber || '-'}`, `HP: ${resident.phone || '-'}`, resident.active ? 'Aktif' : 'Tidak aktif'].join('\n'),
+  }),
+};
+
+// The rules merge as a single item; waivers merge one by one.
+const FINES_MERGE: MergeStrategy<FineSettings, FineRules> = {
+  merge: (base, local, remote) => {
+    const [baseSettings, localSettings, remoteSettings] = [base, local, remote].map(normalizeFineSettings);
+    const rules = mergeByKey([baseSettings.rules], [localSettings.rules], [remoteSettings.rules], () => 'rules');
+    const waivers = mergeByKey(baseSettings.waivedFineIds, localSettings.waivedFineIds, remoteSettings.waivedFineIds, id => id);
+    return { merged: { rules: rules.merged[0], waivedFineIds: waivers.merged }, conflicts: rules.conflicts };
+  },
+  resolve: (merged, conflicts, choices) => {
+    const chosen = choices.rules === 'remote' ? conflicts[0]?.remote : conflicts[0]?.local;
+    return { ...merged, rules: chosen ?? merged.rules };
+  },
+  describe: rules => ({
+    title: 'Aturan denda',
+    details: [
+      `Per Alpa: ${rules.amountPerAlpa.toLocaleString('id-ID')}`,
+      rules.escalateAfter > 0 && `Setelah ${rules.escalateAfter}x sebulan: ${rules.escalatedAmount.toLocaleString('id-ID')}`,
+      rules.exemptOfficers.length > 0 && `Dibebaskan: ${rules.exemptOfficers.join(', ')}`,
+    ].filter(Boolean).join('\n'),
+  }),
+};
+
+// The pos location merges as a single item; check-ins merge one by one.
+const CHECK_INS_MERGE: MergeStrategy<CheckInLog, PosRonda | null> = {
+  merge: (base, local, remote) => {
+    const [baseLog, localLog, remoteLog] = [base, local, remote].map(normalizeCheckInLog);
+    const pos = mergeByKey([baseLog.pos], [localLog.pos], [remoteLog.pos], () => 'pos');
+    const checkIns = mergeByKey(baseLog.checkIns, localLog.checkIns, remoteLog.checkIns, checkIn => checkIn.id);
+    return { merged: { pos: pos.merged[0] ?? null, checkIns: checkIns.merged }, conflicts: pos.conflicts };
+  },
+  resolve: (merged, conflicts, choices) => {
+    const chosen = choices.pos === 'remote' ? conflicts[0]?.remote : conflicts[0]?.local;
+    return { ...merged, pos: chosen === undefined ? merged.pos : chosen };
+  },
+  describe: pos => ({
+    title: 'Lokasi pos ronda',
+    details: pos ? `${pos.latitude.toFixed(5)}, ${pos.longitude.toFixed(5)}\nRadius: ${pos.radius} m` : '(belum diatur)',
+  }),
+};
+
+const REQUESTS_MERGE: MergeStrategy<ShiftRequest[], ShiftRequest> = {
+  merge: (base, local, remote) => mergeByKey(base, local, remote, request => request.id),
+  resolve: (merged, conflicts, choices) => applyChoices(merged, conflicts, choices, request => request.id),
+  describe: request => ({
+    title: `${request.type === 'ijin' ? 'Ijin' : 'Tukar jadwal'} ${request.date}`,
+    details: [`Status: ${REQUEST_STATUS_LABELS[request.status]}`, request.reason && `Alasan: ${request.reason}`].filter(Boolean).join('\n'),
+  }),
+};
+
+const EXCEPTIONS_MERGE: MergeStrategy<NightException[], NightException> = {
+  merge: (base, local, remote) => mergeByKey(base, local, remote, exception => exception.id),
+  resolve: (merged, conflicts, choices) => applyChoices(merged, conflicts, choices, exception => exception.id),
+  describe: exception => ({
+    title: `${NIGHT_EXCEPTION_LABELS[exception.type]} ${exception.date}`,
+    details: [exception.reason, exception.officers.length > 0 && `Petugas: ${exception.officers.join(', ')}`].filter(Boolean).join('\n'),
+  }),
+};
+
+export const MERGE_STRATEGIES: { [path in SyncedFile]: MergeStrategy<any, any> } = {
+  'data.json': RECORDS_MERGE,
+  'schedule.json': SCHEDULE_MERGE,
+  'kas.json': CASH_MERGE,
+  'residents.json': RESIDENTS_MERGE,
+  'denda.json': FINES_MERGE,
+  'checkins.json': CHECK_INS_MERGE,
+  'permohonan.json': REQUESTS_MERGE,
+  'pengecualian.json': EXCEPTIONS_MERGE,
+};
@@ -0,0 +1,29 @@
+import { AttendanceRecord, NightException, NightExceptionType, ScheduleVersion } from '../types';
+import { resolveOfficers } from './schedule';
+
+export const NIGHT_EXCEPTION_LABELS: { [key in NightExceptionType]: string } = {
+  batal: 'Ronda ditiadakan',
+  tambah: 'Tambah petugas',
+  ganti: 'Ganti petugas',
+};
+
+export const getNightException = (exceptions: NightException[], dateString: string) =>
+  exceptions.find(exception => exception.date === dateString);
+
+// Officers for the night that starts on `dateString`, with its exception applied.
+export const resolveNightOfficers = (versions: ScheduleVersion[], exceptions: NightException[], dateString: string): string[] => {
+  const exception = getNightException(exceptions, dateString);
+  switch (exception?.type) {
+    case 'batal': return [];
+    case 'ganti': return exception.officers;
+    case 'tambah': return [...new Set([...resolveOfficers(versions, dateString), ...exception.officers])];
+    default: return resolveOfficers(versions, dateString);
+  }
+};
+
+// Records of cancelled nights, e.g. filled in before the night was called off,
+// count for nobody's attendance, fines or totals.
+export const withoutCancelledNights = (records: AttendanceRecord[], exceptions: NightException[]) => {
+  const cancelled = new Set(exceptions.filter(exception => exception.type === 'batal').map(exception => exception.date));
+  return cancelled.size ? records.filter(record => !cancelled.has(record.date)) : records;
+};
@@ -0,0 +1,68 @@
+import { AttendanceRecord, AttendanceStatus } from '../types';
+
+interface ReportRow {
+  date: string;
+  day: string;
+  hadir: string[];
+  ijin: string[];
+  alpa: string[];
+  diganti: string[];
+  tambahan: string[];
+  collection: number;
+  notes: string;
+}
+
+export const buildReportRows = (records: AttendanceRecord[], month: string): ReportRow[] => records
+  .filter(record => record.date.startsWith(month))
+  .sort((a, b) => a.date.localeCompare(b.date))
+  .map(record => {
+    const namesWith = (status: AttendanceStatus) => record.officers
+      .filter(officer => !officer.nonScheduled && officer.status === status)
+      .map(officer => officer.replacedBy ? `${officer.name} → ${officer.replacedBy}` : officer.name);
+    return {
+      date: record.date,
+      day: record.day,
+      hadir: namesWith(AttendanceStatus.Hadir),
+      ijin: namesWith(AttendanceStatus.Ijin),
+      alpa: namesWith(AttendanceStatus.Alpa),
+      diganti: namesWith(AttendanceStatus.Diganti),
+      tambahan: record.officers.filter(officer => officer.nonScheduled).map(officer => officer.name),
+      collection: record.collection,
+      notes: record.notes,
+    };
+  });
+
+export const REPORT_HEADERS = ['Tanggal', 'Hari', 'Hadir', 'Ijin', 'Alpa', 'Diganti', 'Tambahan', 'Prelek', 'Keterangan'];
+
+export const reportRowToCells = (row: ReportRow): (string | number)[] => [
+  row.date, row.day, row.hadir.join(', '), row.ijin.join(', '), row.alpa.join(', '),
+  row.diganti.join(', '), row.tambahan.join(', '), row.collection, row.notes,
+];
+
+export const toCsv = (rows: (string | number)[][]) => rows
+  .map(cells => cells.map(cell => {
+    const text = String(cell);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(','))
+  .join('\r\n');
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SpreadsheetML 2003: plain XML that Excel and LibreOffice open as a workbook.
+export const toSpreadsheetXml = (sheetName: string, rows: (string | number)[][]) => {
+  const xmlRows = rows.map(cells => `<Row>${cells.map(cell => typeof cell === 'number'
+    ? `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXml(cell)}</Data></Cell>`).join('')}</Row>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?><?mso-application progid="Excel.Sheet"?>`
+    + `<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">`
+    + `<Worksheet ss:Name="${escapeXml(sheetName)}"><Table>${xmlRows}</Table></Worksheet></Workbook>`;
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', url);
+  linkElement.setAttribute('download', fileName);
+  linkElement.click();
+  URL.revokeObjectURL(url);
+};
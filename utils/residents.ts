@@ -0,0 +1,87 @@
+import { AttendanceRecord, AttendanceStatus, OfficerAttendance, Resident, Schedule, ScheduleVersion } from '../types';
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const findResidentByName = (residents: Resident[], name: string) => {
+  const normalized = normalizeName(name);
+  return residents.find(resident => normalizeName(resident.name) === normalized);
+};
+
+// Resolves a schedule entry (resident ID or legacy name) to a display name.
+export const getOfficerName = (residents: Resident[], ref: string) => residents.find(resident => resident.id === ref)?.name ?? ref;
+
+// Names of active residents, for pickers.
+export const getRoster = (residents: Resident[]) => residents
+  .filter(resident => resident.active)
+  .map(resident => resident.name)
+  .sort((a, b) => a.localeCompare(b));
+
+// Who uses this phone, for check-ins and requests. It only saves picking the
+// name every time; nothing verifies it.
+export const loadOwnResidentId = () => localStorage.getItem('ownResidentId') || '';
+
+export const saveOwnResidentId = (id: string) => {
+  localStorage.setItem('ownResidentId', id);
+};
+
+export const generateResidentId = (residents: Resident[]) => {
+  const highest = residents.reduce((max, resident) => Math.max(max, parseInt(resident.id.replace(/\D/g, ''), 10) || 0), 0);
+  return `W${String(highest + 1).padStart(3, '0')}`;
+};
+
+export const toOfficerAttendance = (residents: Resident[], ref: string, status: AttendanceStatus): OfficerAttendance => {
+  const resident = residents.find(r => r.id === ref) ?? findResidentByName(residents, ref);
+  return resident ? { residentId: resident.id, name: resident.name, status } : { name: ref, status };
+};
+
+// Maps the free-text names in schedules and records onto registry entries.
+// Scheduled officers without a match become new residents; replacements and
+// volunteers are only linked when they match, since they may be guests.
+export const migrateNamesToRegistry = (residents: Resident[], schedules: ScheduleVersion[], records: AttendanceRecord[]) => {
+  const updatedResidents = [...residents];
+  const created: Resident[] = [];
+  const resolveName = (name: string, createMissing: boolean) => {
+    const existing = updatedResidents.find(resident => resident.id === name) ?? findResidentByName(updatedResidents, name);
+    if (existing || !createMissing) return existing;
+    const houseMatch = name.match(/\bH\s?(\d{1,3})\b/i);
+    const resident: Resident = {
+      id: generateResidentId(updatedResidents),
+      name: name.trim(),
+      houseNumber: houseMatch ? `H${houseMatch[1].padStart(2, '0')}` : '',
+      phone: '',
+      active: true,
+    };
+    updatedResidents.push(resident);
+    created.push(resident);
+    return resident;
+  };
+
+  const updatedSchedules = schedules.map(version => ({
+    ...version,
+    weeks: version.weeks.map(week => Object.keys(week).reduce((acc, day) => {
+      acc[Number(day)] = week[Number(day)].map(ref => resolveName(ref, true)!.id);
+      return acc;
+    }, {} as Schedule)),
+  }));
+
+  const updatedRecords = records.map(record => ({
+    ...record,
+    officers: record.officers.map(officer => {
+      const resident = officer.residentId ? undefined : resolveName(officer.name, !officer.nonScheduled);
+      const replacement = officer.replacedBy && !officer.replacedById ? resolveName(officer.replacedBy, false) : undefined;
+      return {
+        ...officer,
+        ...(resident && { residentId: resident.id }),
+        ...(replacement && { replacedById: replacement.id }),
+      };
+    }),
+  }));
+
+  return { residents: updatedResidents, schedules: updatedSchedules, records: updatedRecords, created };
+};
+
+export const hasUnlinkedNames = (residents: Resident[], schedules: ScheduleVersion[], records: AttendanceRecord[]) => {
+  const ids = new Set(residents.map(resident => resident.id));
+  return schedules.some(version => version.weeks.some(week => Object.values(week).some(refs => refs.some(ref => !ids.has(ref)))))
+    || records.some(record => record.officers.some(officer => !officer.residentId && !officer.nonScheduled));
+};
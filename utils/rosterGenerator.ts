@@ -0,0 +1,83 @@
+import { AttendanceRecord, Resident, Schedule } from '../types';
+import { computeOfficerStats } from './statistics';
+
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export interface RosterOptions {
+  groupSize: number;
+  weightByAttendance: boolean;
+}
+
+export interface RosterProposal {
+  schedule: Schedule;
+  // Active residents who blocked every day of the week.
+  unassigned: Resident[];
+}
+
+export interface ScheduleDayDiff {
+  day: number;
+  kept: string[];
+  added: string[];
+  removed: string[];
+}
+
+// Share of scheduled nights attended, 0..1. Residents without history count as reliable.
+const getReliability = (records: AttendanceRecord[], residents: Resident[]) => {
+  const stats = computeOfficerStats(records, residents);
+  return (residentId: string) => {
+    const entry = stats.find(stat => stat.id === residentId);
+    return entry?.total ? entry.percentage / 100 : 1;
+  };
+};
+
+// Fills every night up to the group size with each active resident patrolling
+// at least once; in small blocks some residents get a second night. Every slot
+// goes to a resident with the fewest nights so far, the most constrained first,
+// on a night that still has room, their preferred days first and then the
+// emptiest night. With attendance weighting the most reliable residents are
+// placed first and ties go to the least reliable night, so every night gets a
+// mix of regulars and residents who often miss their turn.
+export const generateRoster = (residents: Resident[], records: AttendanceRecord[], { groupSize, weightByAttendance }: RosterOptions): RosterProposal => {
+  const schedule: Schedule = Object.fromEntries(DAYS.map(day => [day, []]));
+  const active = residents.filter(resident => resident.active).sort((a, b) => a.name.localeCompare(b.name));
+  const allowedDays = new Map(active.map(resident => [resident.id, DAYS.filter(day => !resident.blockedDays?.includes(day))]));
+  const candidates = active.filter(resident => allowedDays.get(resident.id)!.length);
+  const reliability = weightByAttendance ? getReliability(records, residents) : () => 1;
+  const nightCount = new Map(candidates.map(resident => [resident.id, 0]));
+  const dayReliability = (day: number) => schedule[day].reduce((sum, id) => sum + reliability(id), 0);
+
+  const slots = Math.max(DAYS.length * groupSize, candidates.length);
+  for (let slot = 0; slot < slots; slot++) {
+    const eligible = candidates
+      .map(resident => ({ resident, days: allowedDays.get(resident.id)!.filter(day => !schedule[day].includes(resident.id)) }))
+      .filter(({ days }) => days.length);
+    if (!eligible.length) break;
+    eligible.sort((a, b) =>
+      nightCount.get(a.resident.id)! - nightCount.get(b.resident.id)!
+      || allowedDays.get(a.resident.id)!.length - allowedDays.get(b.resident.id)!.length
+      || reliability(b.resident.id) - reliability(a.resident.id));
+    const { resident, days } = eligible[0];
+    const isFull = (day: number) => schedule[day].length >= groupSize;
+    const isPreferred = (day: number) => !!resident.preferredDays?.includes(day);
+    days.sort((a, b) =>
+      Number(isFull(a)) - Number(isFull(b))
+      || Number(isPreferred(b)) - Number(isPreferred(a))
+      || schedule[a].length - schedule[b].length
+      || dayReliability(a) - dayReliability(b));
+    schedule[days[0]].push(resident.id);
+    nightCount.set(resident.id, nightCount.get(resident.id)! + 1);
+  }
+
+  return { schedule, unassigned: active.filter(resident => !allowedDays.get(resident.id)!.length) };
+};
+
+export const diffSchedules = (current: Schedule, proposed: Schedule): ScheduleDayDiff[] => DAYS.map(day => {
+  const before = current[day] || [];
+  const after = proposed[day] || [];
+  return {
+    day,
+    kept: after.filter(id => before.includes(id)),
+    added: after.filter(id => !before.includes(id)),
+    removed: before.filter(id => !after.includes(id)),
+  };
+});
@@ -0,0 +1,34 @@
+import { Schedule, ScheduleVersion } from '../types';
+import { DAY_MS, parseDateString } from './dates';
+import { getDayIndex } from './shiftDate';
+
+export const sortSchedules = (versions: ScheduleVersion[]) => [...versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+// schedule.json used to hold a single weekly map; treat that as one version
+// that has always applied.
+export const normalizeSchedules = (content: Schedule | ScheduleVersion[]): ScheduleVersion[] => {
+  if (Array.isArray(content)) return sortSchedules(content);
+  return [{ id: 'awal', effectiveFrom: '1970-01-01', rotation: 'tetap', weeks: [content] }];
+};
+
+const getScheduleVersion = (versions: ScheduleVersion[], dateString: string) => {
+  const applicable = versions.filter(version => version.effectiveFrom <= dateString);
+  return applicable.length ? applicable[applicable.length - 1] : versions[0];
+};
+
+// Officers scheduled for the night that starts on `dateString`.
+export const resolveOfficers = (versions: ScheduleVersion[], dateString: string): string[] => {
+  const version = getScheduleVersion(versions, dateString);
+  if (!version) return [];
+  const date = parseDateString(dateString);
+  const dayOfWeek = getDayIndex(dateString);
+  const weeksSinceStart = Math.max(0, Math.floor(Math.round((date.getTime() - parseDateString(version.effectiveFrom).getTime()) / DAY_MS) / 7));
+  switch (version.rotation) {
+    case 'ab':
+      return (version.weeks[weeksSinceStart % 2] ?? version.weeks[0])[dayOfWeek] || [];
+    case 'geser':
+      return version.weeks[0][(dayOfWeek - (weeksSinceStart % 7) + 7) % 7] || [];
+    default:
+      return version.weeks[0][dayOfWeek] || [];
+  }
+};
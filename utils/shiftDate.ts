@@ -0,0 +1,91 @@
+import { Block } from '../types';
+import { getShiftLabel } from './dates';
+
+// A record's `date` is the calendar date on which the night shift started, in
+// the block's timezone, whatever timezone the phone is set to. Submissions
+// before the cutoff hour belong to the previous night.
+export interface ShiftDateSettings {
+  timeZone: string;
+  cutoffHour: number;
+}
+
+const DEFAULT_SHIFT_DATE_SETTINGS: ShiftDateSettings = { timeZone: 'Asia/Jakarta', cutoffHour: 18 };
+
+export const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'Asia/Jakarta', label: 'WIB (UTC+7)' },
+  { value: 'Asia/Makassar', label: 'WITA (UTC+8)' },
+  { value: 'Asia/Jayapura', label: 'WIT (UTC+9)' },
+];
+
+// Kept in blocks.json so every phone of the block dates shifts the same way.
+export const getBlockShiftDateSettings = (block: Block): ShiftDateSettings => ({
+  timeZone: block.timeZone ?? DEFAULT_SHIFT_DATE_SETTINGS.timeZone,
+  cutoffHour: block.cutoffHour ?? DEFAULT_SHIFT_DATE_SETTINGS.cutoffHour,
+});
+
+// The active block's settings, which the helpers below use by default. App sets
+// them from blocks.json; the copy in localStorage covers the start of a visit,
+// before blocks.json has been read.
+let activeSettings: ShiftDateSettings | null = null;
+
+export const loadShiftDateSettings = (): ShiftDateSettings => {
+  if (!activeSettings) {
+    const saved = localStorage.getItem('shiftDateSettings');
+    activeSettings = saved ? { ...DEFAULT_SHIFT_DATE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SHIFT_DATE_SETTINGS;
+  }
+  return activeSettings;
+};
+
+export const setActiveShiftDateSettings = (settings: ShiftDateSettings) => {
+  const current = loadShiftDateSettings();
+  if (current.timeZone === settings.timeZone && current.cutoffHour === settings.cutoffHour) return;
+  activeSettings = settings;
+  localStorage.setItem('shiftDateSettings', JSON.stringify(settings));
+};
+
+// Calendar date and wall-clock time of `instant` in `timeZone`.
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value ?? '00';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: Number(part('hour')), minute: Number(part('minute')) };
+};
+
+// Date arithmetic on YYYY-MM-DD strings, independent of the device timezone.
+export const addDays = (dateString: string, days: number) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export const getDayIndex = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export const getShiftDayLabel = (dateString: string) => getShiftLabel(getDayIndex(dateString));
+
+export const getToday = (settings = loadShiftDateSettings()) => getZonedParts(new Date(), settings.timeZone).date;
+
+// The night a submission made at `instant` belongs to.
+export const getShiftDate = (instant = new Date(), settings = loadShiftDateSettings()) => {
+  const { date, hour } = getZonedParts(instant, settings.timeZone);
+  return hour < settings.cutoffHour ? addDays(date, -1) : date;
+};
+
+// The instant at which the block's clock shows `time` (HH:MM) on `dateString`.
+export const getZonedInstant = (dateString: string, time: string, settings = loadShiftDateSettings()) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  const shown = getZonedParts(new Date(guess), settings.timeZone);
+  const [shownYear, shownMonth, shownDay] = shown.date.split('-').map(Number);
+  const offset = Date.UTC(shownYear, shownMonth - 1, shownDay, shown.hour, shown.minute) - guess;
+  return new Date(guess - offset);
+};
+
+// HH:MM of `instant` on the block's clock.
+export const formatShiftTime = (instant: string, settings = loadShiftDateSettings()) => {
+  const { hour, minute } = getZonedParts(new Date(instant), settings.timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
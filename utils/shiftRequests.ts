@@ -0,0 +1,37 @@
+import { ShiftRequest, ShiftRequestStatus } from '../types';
+
+export const REQUEST_STATUS_LABELS: { [key in ShiftRequestStatus]: string } = {
+  menunggu: 'Menunggu',
+  diterima: 'Diterima, menunggu admin',
+  disetujui: 'Disetujui',
+  ditolak: 'Ditolak',
+};
+
+export const REQUEST_STATUS_COLORS: { [key in ShiftRequestStatus]: string } = {
+  menunggu: 'bg-yellow-600 text-yellow-100',
+  diterima: 'bg-blue-600 text-blue-100',
+  disetujui: 'bg-green-600 text-green-100',
+  ditolak: 'bg-gray-600 text-gray-200',
+};
+
+// Whose move it is: the other resident for a new swap, otherwise an admin.
+export const awaitsPartner = (request: ShiftRequest) => request.type === 'tukar' && request.status === 'menunggu';
+
+export const awaitsAdmin = (request: ShiftRequest) =>
+  request.type === 'ijin' ? request.status === 'menunggu' : request.status === 'diterima';
+
+// Applies approved requests to the officers scheduled for `date`: swapped
+// residents change places and approved ijin come back in `ijin`.
+export const applyApprovedRequests = (officers: string[], requests: ShiftRequest[], date: string) => {
+  const approved = requests.filter(request => request.status === 'disetujui');
+  const onDuty = officers.map(ref => {
+    const swap = approved.find(request => request.type === 'tukar' && request.date === date && request.residentId === ref);
+    if (swap?.swapWithId) return swap.swapWithId;
+    const returned = approved.find(request => request.type === 'tukar' && request.returnDate === date && request.swapWithId === ref);
+    return returned ? returned.residentId : ref;
+  });
+  const ijin = approved
+    .filter(request => request.type === 'ijin' && request.date === date && onDuty.includes(request.residentId))
+    .map(request => request.residentId);
+  return { onDuty, ijin };
+};
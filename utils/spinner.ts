@@ -0,0 +1,4 @@
+export const showSpinner = (show: boolean) => {
+    const spinner = document.getElementById('spinner');
+    if (spinner) spinner.style.display = show ? 'block' : 'none';
+};
@@ -0,0 +1,63 @@
+import { AttendanceRecord, AttendanceStatus, MonthSummary, OfficerStats, Resident } from '../types';
+import { getOfficerName } from './residents';
+
+// Attendance percentage counts Diganti as fulfilled, since the officer arranged
+// someone to patrol in their place.
+export const computeOfficerStats = (records: AttendanceRecord[], residents: Resident[] = []): OfficerStats[] => {
+  const stats: { [id: string]: OfficerStats & { currentAlpaStreak: number } } = {};
+  // Residents are counted by ID so a renamed person keeps their history.
+  const getEntry = (residentId: string | undefined, name: string) => {
+    const id = residentId ?? name;
+    if (!stats[id]) {
+      const displayName = residentId ? getOfficerName(residents, residentId) : name;
+      stats[id] = { id, name: displayName, hadir: 0, ijin: 0, alpa: 0, diganti: 0, extra: 0, total: 0, percentage: 0, longestAlpaStreak: 0, currentAlpaStreak: 0 };
+    }
+    return stats[id];
+  };
+
+  const sortedRecords = [...records].sort((a, b) => a.date.localeCompare(b.date));
+  sortedRecords.forEach(record => {
+    record.officers.forEach(officer => {
+      if (officer.replacedBy) getEntry(officer.replacedById, officer.replacedBy).extra++;
+      const entry = getEntry(officer.residentId, officer.name);
+      if (officer.nonScheduled) {
+        entry.extra++;
+        return;
+      }
+      entry.total++;
+      switch (officer.status) {
+        case AttendanceStatus.Hadir: entry.hadir++; break;
+        case AttendanceStatus.Ijin: entry.ijin++; break;
+        case AttendanceStatus.Alpa: entry.alpa++; break;
+        case AttendanceStatus.Diganti: entry.diganti++; break;
+      }
+      entry.currentAlpaStreak = officer.status === AttendanceStatus.Alpa ? entry.currentAlpaStreak + 1 : 0;
+      entry.longestAlpaStreak = Math.max(entry.longestAlpaStreak, entry.currentAlpaStreak);
+    });
+  });
+
+  return Object.values(stats).map(({ currentAlpaStreak, ...entry }) => ({
+    ...entry,
+    percentage: entry.total ? Math.round(((entry.hadir + entry.diganti) / entry.total) * 100) : 0,
+  }));
+};
+
+// Same percentage rule as computeOfficerStats, over every officer of the month.
+export const computeMonthSummary = (records: AttendanceRecord[], month: string): MonthSummary => {
+  const summary: MonthSummary = { nights: 0, hadir: 0, ijin: 0, alpa: 0, diganti: 0, total: 0, percentage: 0, collection: 0 };
+  records.filter(record => record.date.startsWith(month)).forEach(record => {
+    summary.nights++;
+    summary.collection += record.collection;
+    record.officers.filter(officer => !officer.nonScheduled).forEach(officer => {
+      summary.total++;
+      switch (officer.status) {
+        case AttendanceStatus.Hadir: summary.hadir++; break;
+        case AttendanceStatus.Ijin: summary.ijin++; break;
+        case AttendanceStatus.Alpa: summary.alpa++; break;
+        case AttendanceStatus.Diganti: summary.diganti++; break;
+      }
+    });
+  });
+  summary.percentage = summary.total ? Math.round(((summary.hadir + summary.diganti) / summary.total) * 100) : 0;
+  return summary;
+};
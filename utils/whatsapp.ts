@@ -0,0 +1,28 @@
+import { AttendanceRecord, AttendanceStatus } from '../types';
+import { parseDateString } from './dates';
+
+export type MessageTemplateKey = 'reminder' | 'report';
+
+export const DEFAULT_MESSAGE_TEMPLATES: { [key in MessageTemplateKey]: string } = {
+  reminder: '*Pengingat Ronda {blok}*\n{hari}, {tanggal}\n\nPetugas malam ini:\n{petugas}\n\nMohon hadir tepat waktu. Terima kasih 🙏',
+  report: '*Laporan Ronda {blok}*\n{hari}, {tanggal}\n\n{rekap}\n\nHasil prelek: {prelek}\n{keterangan}',
+};
+
+const STATUS_EMOJI: { [key in AttendanceStatus]: string } = {
+  [AttendanceStatus.Hadir]: '✅',
+  [AttendanceStatus.Ijin]: '🟡',
+  [AttendanceStatus.Alpa]: '❌',
+  [AttendanceStatus.Diganti]: '🔄',
+};
+
+export const fillTemplate = (template: string, values: { [key: string]: string }) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+
+export const formatLongDate = (dateString: string) =>
+  parseDateString(dateString).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const formatAttendanceLines = (record: AttendanceRecord) => record.officers.map(officer => {
+  if (officer.nonScheduled) return `➕ ${officer.name}`;
+  const replacement = officer.replacedBy ? ` → ${officer.replacedBy}` : '';
+  return `${STATUS_EMOJI[officer.status] ?? '•'} ${officer.name}${replacement}`;
+}).join('\n');